@@ -0,0 +1,141 @@
+// 협업 보드용 로컬 WebSocket 중계 서버 (외부 패키지 없이 RFC 6455 텍스트 프레임만 처리)
+// 같은 room에 접속한 다른 클라이언트에게 받은 메시지를 그대로 전달한다.
+//
+//   npm run collab            # ws://localhost:4001
+//   COLLAB_PORT=5000 npm run collab
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.COLLAB_PORT ?? 4001);
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// 한 메시지의 최대 크기 (보드 상태 전체를 보내도 충분한 크기)
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Set<import("node:net").Socket>>} */
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * 버퍼 앞에서 완성된 프레임 하나를 읽음, 아직 덜 왔으면 null
+ */
+const decodeFrame = (buffer) => {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_PAYLOAD_BYTES) throw new Error("payload too large");
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+  return { opcode, payload, size: offset + length };
+};
+
+const leaveRoom = (roomId, socket) => {
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.delete(socket);
+  if (room.size === 0) rooms.delete(roomId);
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain; charset=utf-8" });
+  response.end("WebSocket 연결만 받습니다\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (typeof key !== "string") {
+    socket.destroy();
+    return;
+  }
+
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const roomId = url.searchParams.get("room") || "default";
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  if (!rooms.has(roomId)) rooms.set(roomId, new Set());
+  rooms.get(roomId).add(socket);
+
+  let buffered = Buffer.alloc(0);
+
+  socket.on("data", (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    try {
+      let frame;
+      while ((frame = decodeFrame(buffered))) {
+        buffered = buffered.subarray(frame.size);
+
+        if (frame.opcode === OPCODE_TEXT) {
+          const outgoing = encodeFrame(OPCODE_TEXT, frame.payload);
+          for (const peer of rooms.get(roomId) ?? []) {
+            if (peer !== socket && !peer.destroyed) peer.write(outgoing);
+          }
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        } else if (frame.opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+          return;
+        }
+      }
+    } catch {
+      socket.destroy();
+    }
+  });
+
+  socket.on("close", () => leaveRoom(roomId, socket));
+  socket.on("error", () => leaveRoom(roomId, socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`협업 중계 서버: ws://localhost:${PORT}`);
+});
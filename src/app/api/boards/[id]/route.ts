@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { isBoardItemList, isValidBoardId, readBoard, writeBoard } from "@/lib/boardStore";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// 저장소 읽기·쓰기 실패 (권한, 읽기 전용 디스크, 깨진 파일 등)
+const storeErrorResponse = () =>
+  NextResponse.json({ error: "보드 저장소에 접근할 수 없습니다" }, { status: 500 });
+
+/**
+ * 저장된 보드 배치 조회
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidBoardId(id)) {
+    return NextResponse.json({ error: "잘못된 보드 ID입니다" }, { status: 400 });
+  }
+
+  try {
+    const board = await readBoard(id);
+    if (!board) {
+      return NextResponse.json({ error: "저장된 보드가 없습니다" }, { status: 404 });
+    }
+    return NextResponse.json(board);
+  } catch {
+    return storeErrorResponse();
+  }
+}
+
+/**
+ * 보드 배치 저장 (본문: { items: BoardItem[] })
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidBoardId(id)) {
+    return NextResponse.json({ error: "잘못된 보드 ID입니다" }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "JSON 본문이 필요합니다" }, { status: 400 });
+  }
+
+  // null이나 배열 같은 값도 올바른 JSON이므로 객체인지 먼저 확인
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "JSON 본문은 { items } 객체여야 합니다" }, { status: 400 });
+  }
+
+  const { items } = body as { items?: unknown };
+  if (!isBoardItemList(items)) {
+    return NextResponse.json({ error: "보드 아이템 형식이 올바르지 않습니다" }, { status: 422 });
+  }
+
+  try {
+    const board = await writeBoard(id, items);
+    return NextResponse.json(board);
+  } catch {
+    return storeErrorResponse();
+  }
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "폭탄 찾기",
+  description: "카드를 뒤집어 폭탄을 피하는 드래그 앤 드롭 카드 게임",
+};
+
+export default function BombLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
@@ -0,0 +1,1900 @@
+"use client";
+
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import {
+  DndContext,
+  useDraggable,
+  DragEndEvent,
+  DragStartEvent,
+  UniqueIdentifier,
+  useSensor,
+  useSensors,
+  MouseSensor,
+  TouchSensor,
+  KeyboardSensor,
+  KeyboardCodes,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+} from "@dnd-kit/sortable";
+import { motion, AnimatePresence } from "framer-motion";
+import { useHistory } from "@/hooks/useHistory";
+import {
+  useReplayRecorder,
+  useReplayPlayer,
+  downloadReplay,
+  parseReplay,
+  TimedEvent,
+} from "@/hooks/useReplay";
+import { ReplayControls } from "@/components/ReplayControls";
+import { isEmbeddedWindow, useIsEmbedded } from "@/hooks/useIsEmbedded";
+import { DragPreviewOverlay } from "@/components/DragPreviewOverlay";
+import { FlipCard, CardFace, TILE_SIZE_CLASS, getTileSize } from "@/components/FlipCard";
+import { DropRule, DropSubject, checkDropRule } from "@/lib/dropRules";
+import { useRuledDroppable } from "@/hooks/useRuledDroppable";
+import { useGridKeyboardNavigation } from "@/hooks/useGridKeyboardNavigation";
+import { createKoreanAnnouncements, createKoreanInstructions } from "@/lib/dndAnnouncements";
+import { createVersionedStore } from "@/lib/versionedStorage";
+
+// 카드 데이터 타입 정의
+interface Card {
+  id: string;
+  content: string;
+  isFlipped: boolean;
+  isBomb: boolean;
+  isFlagged: boolean;
+  isScanned: boolean;
+  // 스캔한 순간 주변에 폭탄이 있었는지 (스캔 전이면 null, 이후 카드가 옮겨져도 바뀌지 않음)
+  scanDanger: boolean | null;
+  adjacentBombs: number;
+}
+
+// 게임 모드 타입 정의 (scanner: 이동 횟수 제한 + 스캐너 슬롯)
+type GameMode = "classic" | "scanner";
+
+const GAME_MODE_LABELS: Record<GameMode, string> = {
+  classic: "클래식",
+  scanner: "스캐너",
+};
+
+// 실행 취소 기록에 남는 게임 액션
+// flip의 revealed는 함께 공개된 카드 ID -> 시작 카드로부터의 거리
+type GameAction =
+  | { type: "swap"; activeId: string; overId: string }
+  | { type: "scan"; id: string }
+  | { type: "flip"; id: string; revealed: Record<string, number> };
+
+// 리플레이로 녹화되는 게임 이벤트
+type GameReplayEvent =
+  | { type: "start"; seed: string; settings: GameSettings; gameMode: GameMode; practiceMode: boolean }
+  | { type: "dragStart"; id: string }
+  | { type: "dragEnd"; id: string; overId: string | null }
+  | { type: "flip"; id: string }
+  | { type: "flag"; id: string }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "gameOver"; won: boolean };
+
+// 리플레이 파일 종류 식별자
+const REPLAY_KIND = "bomb-game";
+
+// 스캐너 드롭 슬롯 ID
+const SCANNER_SLOT_ID = "scanner-slot";
+
+// 스캐너 슬롯은 아직 뒤집지도, 깃발을 꽂지도, 스캔하지도 않은 카드만 받음
+const SCANNER_DROP_RULE: DropRule = {
+  accepts: ["card"],
+  forbiddenTags: ["flipped", "flagged", "scanned"],
+};
+
+// 키보드 드래그 키: Enter/Space는 카드 뒤집기에 쓰므로 M 키로 집고 놓음
+const CARD_KEYBOARD_CODES: KeyboardCodes = {
+  start: ["KeyM"],
+  cancel: ["Escape"],
+  end: ["KeyM", "Space", "Enter"],
+};
+
+// 스크린 리더 안내 문구
+const cardAnnouncements = createKoreanAnnouncements(id =>
+  id === SCANNER_SLOT_ID ? "스캐너" : `카드 ${String(id).replace("card-", "")}`
+);
+const cardScreenReaderInstructions = {
+  draggable: `Enter 또는 Space 키로 카드를 뒤집고, F 키로 깃발을 표시합니다. ${createKoreanInstructions("M").draggable}`,
+};
+
+/**
+ * 드롭 규칙 판단에 쓰는 카드 정보 (카드 상태를 태그로)
+ */
+const getCardDropSubject = (card: Card): DropSubject => ({
+  type: "card",
+  tags: [
+    ...(card.isFlipped ? ["flipped"] : []),
+    ...(card.isFlagged ? ["flagged"] : []),
+    ...(card.isScanned ? ["scanned"] : []),
+  ],
+});
+
+/**
+ * 카드 칸의 드롭 규칙: 덮여 있고 깃발도, 스캔 표시도 없는 카드끼리만 자리를 바꿈
+ * 스캔한 카드를 옮길 수 있으면 옮겨 가며 스캔 결과로 다른 자리의 위험도를 알아낼 수 있음
+ */
+const getCardDropRule = (card: Card): DropRule => ({
+  accepts: ["card"],
+  forbiddenTags: ["flipped", "flagged", "scanned"],
+  predicate: {
+    test: () => !card.isFlipped && !card.isFlagged && !card.isScanned,
+    reason: "뒤집혔거나 깃발이 꽂혔거나 스캔한 카드와는 바꿀 수 없습니다",
+  },
+});
+
+/**
+ * 스크린 리더가 읽을 카드 상태 설명
+ */
+const getCardLabel = (card: Card): string => {
+  const name = `카드 ${card.content}`;
+  if (!card.isFlipped) {
+    return card.isFlagged ? `${name}, 깃발 표시됨` : `${name}, 뒤집히지 않음`;
+  }
+  if (card.isBomb) return `${name}, 폭탄`;
+  return card.adjacentBombs === 0 ? `${name}, 주변 폭탄 없음` : `${name}, 주변 폭탄 ${card.adjacentBombs}개`;
+};
+
+// 난이도 타입 정의
+type Difficulty = "easy" | "normal" | "hard" | "custom";
+
+// 게임 설정 타입 정의
+interface GameSettings {
+  difficulty: Difficulty;
+  rows: number;
+  cols: number;
+  bombCount: number;
+}
+
+// 난이도별 프리셋 (쉬움이 기존 3x3, 폭탄 1개 보드)
+const DIFFICULTY_PRESETS: Record<Exclude<Difficulty, "custom">, GameSettings> = {
+  easy: { difficulty: "easy", rows: 3, cols: 3, bombCount: 1 },
+  normal: { difficulty: "normal", rows: 4, cols: 4, bombCount: 3 },
+  hard: { difficulty: "hard", rows: 5, cols: 5, bombCount: 6 },
+};
+
+const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: "쉬움",
+  normal: "보통",
+  hard: "어려움",
+  custom: "사용자 지정",
+};
+
+// 난이도별 점수 배율
+const DIFFICULTY_MULTIPLIERS: Record<Exclude<Difficulty, "custom">, number> = {
+  easy: 1,
+  normal: 2,
+  hard: 3,
+};
+
+// 점수 계산 상수
+const SCORE_PER_SAFE_CARD = 100;
+const SCORE_PENALTY_PER_SECOND = 5;
+const SCORE_PENALTY_PER_MOVE = 20;
+
+// 리더보드 저장 키 및 난이도별 최대 기록 수
+const LEADERBOARD_STORAGE_KEY = "bomb-game:leaderboard";
+const LEADERBOARD_SIZE = 10;
+
+// 스캐너 모드에서 폭탄 1개당 주어지는 이동 횟수
+const MOVES_PER_BOMB = 1.5;
+const MIN_MOVE_BUDGET = 2;
+
+const MIN_GRID_SIZE = 2;
+const MAX_GRID_SIZE = 8;
+
+/**
+ * 설정값을 허용 범위 안으로 보정
+ */
+const clampSettings = (settings: GameSettings): GameSettings => {
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(Math.floor(value) || min, min), max);
+
+  const rows = clamp(settings.rows, MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const cols = clamp(settings.cols, MIN_GRID_SIZE, MAX_GRID_SIZE);
+  const bombCount = clamp(settings.bombCount, 1, rows * cols - 1);
+
+  return { ...settings, rows, cols, bombCount };
+};
+
+// 게임 결과 타입 정의
+interface GameResult {
+  score: number;
+  elapsedMs: number;
+  moves: number;
+}
+
+// 리더보드 기록 타입 정의
+interface LeaderboardEntry extends GameResult {
+  name: string;
+  seed: string;
+  date: string;
+}
+
+type Leaderboard = Partial<Record<Difficulty, LeaderboardEntry[]>>;
+
+/**
+ * 난이도 배율 (사용자 지정은 폭탄 밀도로 계산)
+ */
+const getDifficultyMultiplier = (settings: GameSettings): number => {
+  if (settings.difficulty !== "custom") {
+    return DIFFICULTY_MULTIPLIERS[settings.difficulty];
+  }
+  const density = settings.bombCount / (settings.rows * settings.cols);
+  return Math.round((1 + density * 8) * 10) / 10;
+};
+
+/**
+ * 점수 계산: 안전 카드 수 x 난이도 배율에서 걸린 시간과 드래그 횟수만큼 감점
+ */
+const computeScore = (settings: GameSettings, elapsedMs: number, moves: number): number => {
+  const safeCards = settings.rows * settings.cols - settings.bombCount;
+  const base = safeCards * SCORE_PER_SAFE_CARD * getDifficultyMultiplier(settings);
+  const penalty =
+    Math.floor(elapsedMs / 1000) * SCORE_PENALTY_PER_SECOND + moves * SCORE_PENALTY_PER_MOVE;
+  return Math.max(0, Math.round(base - penalty));
+};
+
+/**
+ * 스캐너 모드에서 한 판에 주어지는 이동(스왑 + 스캔) 횟수
+ */
+const getMoveBudget = (settings: GameSettings): number =>
+  Math.max(MIN_MOVE_BUDGET, Math.ceil(settings.bombCount * MOVES_PER_BOMB));
+
+/**
+ * 경과 시간을 mm:ss 형식으로
+ */
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+};
+
+const loadLeaderboard = (): Leaderboard => {
+  try {
+    const raw = window.localStorage.getItem(LEADERBOARD_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Leaderboard) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveLeaderboard = (leaderboard: Leaderboard) => {
+  try {
+    window.localStorage.setItem(LEADERBOARD_STORAGE_KEY, JSON.stringify(leaderboard));
+  } catch {
+    // 저장 공간이 없거나 막혀 있으면 기록만 건너뜀
+  }
+};
+
+/**
+ * 해당 점수가 리더보드에 들어갈 수 있는지
+ */
+const isHighScore = (entries: LeaderboardEntry[], score: number): boolean =>
+  entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score;
+
+// 새로고침해도 이어서 할 수 있도록 저장하는 게임 상태
+interface SavedGame {
+  settings: GameSettings;
+  seed: string;
+  gameMode: GameMode;
+  practiceMode: boolean;
+  cards: Card[];
+  flippedCount: number;
+  moveCount: number;
+  // 첫 동작 전이면 null
+  elapsedMs: number | null;
+  gameOver: boolean;
+}
+
+// 리플레이를 보는 동안 치워 둔 실제 게임 (리플레이를 닫으면 그대로 복원)
+interface LiveGameSnapshot {
+  saved: SavedGame;
+  bombFound: boolean;
+  result: GameResult | null;
+  savedEntry: LeaderboardEntry | null;
+}
+
+const isSavedCard = (card: unknown): card is Card => {
+  const c = card as Partial<Card> | null;
+  return (
+    typeof c?.id === "string" &&
+    typeof c.content === "string" &&
+    typeof c.isFlipped === "boolean" &&
+    typeof c.isBomb === "boolean" &&
+    typeof c.isFlagged === "boolean" &&
+    typeof c.isScanned === "boolean" &&
+    (c.scanDanger === null || typeof c.scanDanger === "boolean") &&
+    typeof c.adjacentBombs === "number"
+  );
+};
+
+const isSavedGame = (data: unknown): data is SavedGame => {
+  const game = data as Partial<SavedGame> | null;
+  if (!game?.settings || typeof game.seed !== "string" || !Array.isArray(game.cards)) return false;
+  return (
+    game.cards.length === game.settings.rows * game.settings.cols &&
+    game.cards.every(isSavedCard) &&
+    (game.gameMode === "classic" || game.gameMode === "scanner") &&
+    typeof game.practiceMode === "boolean" &&
+    typeof game.flippedCount === "number" &&
+    typeof game.moveCount === "number" &&
+    (game.elapsedMs === null || typeof game.elapsedMs === "number") &&
+    typeof game.gameOver === "boolean"
+  );
+};
+
+const isGameSettings = (data: unknown): data is GameSettings => {
+  const settings = data as Partial<GameSettings> | null;
+  if (
+    !Object.keys(DIFFICULTY_LABELS).includes(settings?.difficulty as string) ||
+    typeof settings?.rows !== "number" ||
+    typeof settings.cols !== "number" ||
+    typeof settings.bombCount !== "number"
+  ) {
+    return false;
+  }
+  // 허용 범위를 벗어난 보드는 손으로 고친 파일이므로 받지 않음
+  const clamped = clampSettings(settings as GameSettings);
+  return clamped.rows === settings.rows && clamped.cols === settings.cols && clamped.bombCount === settings.bombCount;
+};
+
+const isGameReplayEvent = (event: unknown): event is GameReplayEvent => {
+  const e = event as Record<string, unknown> | null;
+  switch (e?.type) {
+    case "start":
+      return (
+        typeof e.seed === "string" &&
+        isGameSettings(e.settings) &&
+        (e.gameMode === "classic" || e.gameMode === "scanner") &&
+        typeof e.practiceMode === "boolean"
+      );
+    case "dragStart":
+    case "flip":
+    case "flag":
+      return typeof e.id === "string";
+    case "dragEnd":
+      return typeof e.id === "string" && (e.overId === null || typeof e.overId === "string");
+    case "undo":
+    case "redo":
+      return true;
+    case "gameOver":
+      return typeof e.won === "boolean";
+    default:
+      return false;
+  }
+};
+
+// 진행 중인 게임 저장소
+const gameStore = createVersionedStore<SavedGame>({
+  key: "bomb-game:state",
+  version: 2,
+  migrations: {
+    // v2: 스캔 결과를 카드에 고정 (이전 저장본은 지금 주변 폭탄 수로 채움)
+    1: (data) => {
+      const game = data as SavedGame;
+      return {
+        ...game,
+        cards: game.cards.map(card => ({
+          ...card,
+          scanDanger: card.isScanned ? card.adjacentBombs > 0 : null,
+        })),
+      };
+    },
+  },
+  validate: isSavedGame,
+});
+
+/**
+ * 시드 문자열을 32비트 정수로 해시 (FNV-1a)
+ */
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * 시드 기반 난수 생성기 (mulberry32)
+ * 같은 시드는 항상 같은 [0, 1) 난수열을 만든다
+ */
+const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 새 게임용 랜덤 시드 (영문 소문자 + 숫자 6자리)
+ */
+const generateSeed = (): string => Math.random().toString(36).slice(2, 8).padEnd(6, "0");
+
+/**
+ * 공유 링크용 쿼리 문자열 만들기 (예: ?seed=abc&size=4x4&bombs=3)
+ */
+const buildShareQuery = (settings: GameSettings, seed: string): string => {
+  const params = new URLSearchParams({
+    seed,
+    size: `${settings.rows}x${settings.cols}`,
+    bombs: `${settings.bombCount}`,
+  });
+  return `?${params.toString()}`;
+};
+
+/**
+ * URL 쿼리에서 시드와 보드 설정 읽기
+ * size가 프리셋과 같으면 해당 난이도로, 아니면 사용자 지정으로 취급
+ */
+const parseShareQuery = (search: string): { settings: GameSettings; seed: string } | null => {
+  const params = new URLSearchParams(search);
+  const seed = params.get("seed");
+  if (!seed) return null;
+
+  const sizeMatch = /^(\d+)x(\d+)$/.exec(params.get("size") ?? "");
+  if (!sizeMatch) {
+    return { settings: DIFFICULTY_PRESETS.easy, seed };
+  }
+
+  const rows = Number(sizeMatch[1]);
+  const cols = Number(sizeMatch[2]);
+  const preset = Object.values(DIFFICULTY_PRESETS).find(p => p.rows === rows && p.cols === cols);
+  const bombsParam = params.get("bombs");
+  const bombCount = bombsParam !== null
+    ? Number(bombsParam)
+    : preset?.bombCount ?? Math.max(1, Math.round((rows * cols) / 6));
+
+  const settings = clampSettings({ difficulty: "custom", rows, cols, bombCount });
+  const matched = Object.values(DIFFICULTY_PRESETS).find(
+    p => p.rows === settings.rows && p.cols === settings.cols && p.bombCount === settings.bombCount
+  );
+
+  return { settings: matched ?? settings, seed };
+};
+
+/**
+ * 전체 칸 수에서 중복 없이 폭탄 위치를 뽑기
+ */
+const pickBombIndices = (total: number, bombCount: number, random: () => number): Set<number> => {
+  const indices = Array.from({ length: total }, (_, i) => i);
+
+  for (let i = indices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+
+  return new Set(indices.slice(0, bombCount));
+};
+
+// 연쇄 공개 시 카드 한 겹마다 더해지는 애니메이션 지연 (ms)
+const REVEAL_STAGGER_MS = 80;
+
+/**
+ * 그리드 위 인접한 (대각선 포함) 칸의 인덱스 목록
+ */
+const getNeighborIndices = (index: number, rows: number, cols: number): number[] => {
+  const row = Math.floor(index / cols);
+  const col = index % cols;
+  const neighbors: number[] = [];
+
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (dr === 0 && dc === 0) continue;
+      const r = row + dr;
+      const c = col + dc;
+      if (r >= 0 && r < rows && c >= 0 && c < cols) {
+        neighbors.push(r * cols + c);
+      }
+    }
+  }
+
+  return neighbors;
+};
+
+/**
+ * 현재 배치 기준으로 아직 뒤집지 않은 카드의 주변 폭탄 수를 다시 계산
+ * 이미 뒤집힌 카드의 숫자는 뒤집을 때의 값으로 고정한다.
+ * 다시 계산하면 카드를 몇 번 바꿔 보는 것만으로 숫자 변화에서 폭탄 위치가 드러나기 때문.
+ */
+const withAdjacentCounts = (cards: Card[], rows: number, cols: number): Card[] =>
+  cards.map((card, index) =>
+    card.isFlipped
+      ? card
+      : {
+          ...card,
+          adjacentBombs: getNeighborIndices(index, rows, cols).filter(i => cards[i].isBomb).length,
+        }
+  );
+
+/**
+ * 시작 카드에서 BFS로 연쇄 공개될 카드들을 찾기
+ * 반환값은 카드 인덱스 -> 시작 카드로부터의 거리 (애니메이션 지연 계산용)
+ */
+const collectRevealWave = (
+  cards: Card[],
+  startIndex: number,
+  rows: number,
+  cols: number
+): Map<number, number> => {
+  const wave = new Map<number, number>([[startIndex, 0]]);
+  const queue = [startIndex];
+
+  while (queue.length > 0) {
+    const index = queue.shift()!;
+    if (cards[index].adjacentBombs !== 0) continue;
+
+    for (const neighbor of getNeighborIndices(index, rows, cols)) {
+      const card = cards[neighbor];
+      if (wave.has(neighbor) || card.isFlipped || card.isFlagged || card.isBomb) continue;
+      wave.set(neighbor, wave.get(index)! + 1);
+      queue.push(neighbor);
+    }
+  }
+
+  return wave;
+};
+
+// 주변 폭탄 수에 따른 숫자 색상
+const ADJACENT_COUNT_COLORS = [
+  "text-white",
+  "text-sky-300",
+  "text-green-300",
+  "text-red-300",
+  "text-purple-300",
+  "text-yellow-300",
+  "text-pink-300",
+  "text-orange-300",
+  "text-gray-300",
+];
+
+// 터치에서는 길게 누르기가 드래그 시작이므로, 이 시간만큼 누른 뒤에야 드래그가 시작됨 (ms)
+const TOUCH_DRAG_DELAY_MS = 250;
+
+// 터치 드래그 대기 중 이 거리 이상 움직이면 스크롤로 보고 드래그 취소 (px)
+const TOUCH_DRAG_TOLERANCE = 5;
+
+const SLOT_SIZE_CLASS = "w-[calc(var(--tile-size,6rem)+1rem)] h-[calc(var(--tile-size,6rem)+1rem)]";
+
+// 깃발 토글로 인식할 길게 누르기 시간 (ms)
+const LONG_PRESS_MS = 500;
+
+// 길게 누르는 동안 이 거리 이상 움직이면 드래그로 보고 취소 (MouseSensor distance와 동일)
+const LONG_PRESS_MOVE_TOLERANCE = 10;
+
+/**
+ * 길게 누르기 감지 훅 (마우스/펜 전용, 터치의 길게 누르기는 드래그에 쓰임)
+ * 길게 누르기가 발생한 직후의 click은 무시할 수 있도록 consumeLongPress를 함께 반환
+ */
+const useLongPress = (onLongPress: () => void) => {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const triggeredRef = useRef(false);
+
+  const cancel = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    startRef.current = null;
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    triggeredRef.current = false;
+    if (e.button !== 0 || e.pointerType === "touch") return;
+    startRef.current = { x: e.clientX, y: e.clientY };
+    timerRef.current = setTimeout(() => {
+      triggeredRef.current = true;
+      timerRef.current = null;
+      onLongPress();
+    }, LONG_PRESS_MS);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!startRef.current) return;
+    const dx = e.clientX - startRef.current.x;
+    const dy = e.clientY - startRef.current.y;
+    if (Math.hypot(dx, dy) > LONG_PRESS_MOVE_TOLERANCE) {
+      cancel();
+    }
+  };
+
+  const consumeLongPress = () => {
+    const triggered = triggeredRef.current;
+    triggeredRef.current = false;
+    return triggered;
+  };
+
+  useEffect(() => cancel, []);
+
+  return {
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: cancel,
+      onPointerLeave: cancel,
+      onPointerCancel: cancel,
+    },
+    consumeLongPress,
+  };
+};
+
+/**
+ * 카드 앞면 컴포넌트
+ */
+const CardFront = ({
+  content,
+  isFlagged,
+  scanDanger,
+}: {
+  content: string;
+  isFlagged: boolean;
+  scanDanger: boolean | null;
+}) => (
+  <CardFace side="front" className={isFlagged ? 'bg-amber-500' : 'bg-blue-500'}>
+    {scanDanger !== null && (
+      <span
+        className={`absolute top-1 right-1 px-1 rounded text-[10px] font-semibold
+          ${scanDanger ? 'bg-red-600' : 'bg-emerald-600'}`}
+      >
+        📡 {scanDanger ? '위험' : '안전'}
+      </span>
+    )}
+    {isFlagged ? (
+      <div className="flex flex-col items-center">
+        <span className="text-2xl">🚩</span>
+        <span className="text-xs mt-1 hidden sm:inline">{content}</span>
+      </div>
+    ) : (
+      <div className="text-center font-bold">{content}</div>
+    )}
+  </CardFace>
+);
+
+/**
+ * 카드 뒷면 컴포넌트
+ */
+const CardBack = ({ isBomb, adjacentBombs }: { isBomb: boolean; adjacentBombs: number }) => (
+  <CardFace side="back" className={isBomb ? 'bg-red-500' : 'bg-gray-700'}>
+    <div className="text-center">
+      {isBomb ? (
+        <div className="flex flex-col items-center">
+          <span className="text-2xl">💣</span>
+          <span className="text-xs mt-1 hidden sm:inline">폭탄!</span>
+        </div>
+      ) : adjacentBombs === 0 ? (
+        <div className="flex flex-col items-center">
+          <span className="text-xl">✓</span>
+          <span className="text-xs mt-1 hidden sm:inline">없음</span>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center">
+          <span className={`text-2xl font-bold ${ADJACENT_COUNT_COLORS[adjacentBombs]}`}>{adjacentBombs}</span>
+          <span className="text-xs mt-1 hidden sm:inline">주변 폭탄</span>
+        </div>
+      )}
+    </div>
+  </CardFace>
+);
+
+/**
+ * 드래그 가능한 카드 컴포넌트
+ */
+const DraggableCard = ({
+  card,
+  isDragging,
+  onFlip,
+  onToggleFlag,
+  revealDelay,
+  gridIndex,
+  dragDisabled,
+}: {
+  card: Card;
+  isDragging: boolean;
+  onFlip: (id: string) => void;
+  onToggleFlag: (id: string) => void;
+  revealDelay: number;
+  gridIndex: number;
+  // 게임이 끝났거나 이동이 남지 않아 어떤 카드도 옮길 수 없는 상태
+  dragDisabled: boolean;
+}) => {
+  // 노드는 제자리에 고스트로 남고 움직이는 미리보기는 DragPreviewOverlay가 그림
+  // 뒤집혔거나 깃발을 꽂았거나 스캔한 카드는 아예 집히지 않아 고스트로 흐려지지도 않음
+  const { attributes, listeners, setNodeRef, isDragging: isDraggingNode } = useDraggable({
+    id: card.id,
+    data: { dropSubject: getCardDropSubject(card) },
+    disabled: dragDisabled || card.isFlipped || card.isFlagged || card.isScanned,
+  });
+
+  const { handlers: longPressHandlers, consumeLongPress } = useLongPress(() => onToggleFlag(card.id));
+
+  // 드래그로 끝난 제스처 뒤에 따라오는 click은 뒤집기로 처리하지 않음
+  const draggedRef = useRef(false);
+  const pointerTypeRef = useRef("mouse");
+
+  useEffect(() => {
+    if (isDraggingNode) {
+      draggedRef.current = true;
+    }
+  }, [isDraggingNode]);
+
+  const handlePointerDownCapture = (e: React.PointerEvent) => {
+    draggedRef.current = false;
+    pointerTypeRef.current = e.pointerType;
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (consumeLongPress() || draggedRef.current) return;
+    onFlip(card.id);
+  };
+
+  // 드래그 센서의 키 처리 뒤에 Enter/Space 뒤집기, F 깃발 토글
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    listeners?.onKeyDown?.(e);
+    if (isDragging || e.defaultPrevented) return;
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onFlip(card.id);
+    } else if (e.key === "f" || e.key === "F") {
+      e.preventDefault();
+      onToggleFlag(card.id);
+    }
+  };
+
+  // 터치 길게 누르기는 드래그용이므로 브라우저 메뉴만 막고 깃발은 토글하지 않음
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (pointerTypeRef.current === "touch") return;
+    onToggleFlag(card.id);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      // 깃발 카드는 끌 수만 없고 F로 깃발을 뽑을 수 있으므로 뒤집힌 카드만 비활성으로 읽음
+      aria-disabled={card.isFlipped}
+      onKeyDown={handleKeyDown}
+      onPointerDownCapture={handlePointerDownCapture}
+      aria-label={getCardLabel(card)}
+      data-grid-index={gridIndex}
+      className={`rounded-lg touch-manipulation select-none [-webkit-touch-callout:none]
+        focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400
+        ${isDraggingNode ? "opacity-30 outline-dashed outline-2 outline-gray-400" : ""}`}
+    >
+      <FlipCard
+        isFlipped={card.isFlipped}
+        revealDelay={revealDelay}
+        onClick={handleClick}
+        onContextMenu={handleContextMenu}
+        {...longPressHandlers}
+        front={
+          <CardFront
+            content={`${card.content}`}
+            isFlagged={card.isFlagged}
+            scanDanger={card.scanDanger}
+          />
+        }
+        back={<CardBack isBomb={card.isBomb} adjacentBombs={card.adjacentBombs} />}
+      />
+    </div>
+  );
+};
+
+/**
+ * 드롭 영역 컴포넌트
+ * 드래그 중인 카드를 규칙상 받을 수 없으면 흐리게, 그 위에 올리면 빨갛게 표시한다.
+ */
+const DropArea = ({
+  id,
+  isOver,
+  rule,
+  className = "",
+  children,
+}: {
+  id: string;
+  isOver: boolean;
+  rule?: DropRule;
+  className?: string;
+  children: React.ReactNode;
+}) => {
+  const { setNodeRef, isOver: dropIsOver, verdict } = useRuledDroppable({ id, rule });
+  const rejected = verdict?.allowed === false;
+
+  return (
+    <div
+      ref={setNodeRef}
+      title={verdict?.allowed === false ? verdict.reason : undefined}
+      className={`${SLOT_SIZE_CLASS} flex items-center justify-center transition-all duration-200 rounded-lg ${className}
+        ${rejected
+          ? isOver || dropIsOver
+            ? "bg-red-100 ring-2 ring-red-400 cursor-not-allowed"
+            : "opacity-50"
+          : isOver || dropIsOver
+            ? "bg-gray-100 scale-105"
+            : ""}`}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * 스캐너 슬롯 컴포넌트
+ * 카드를 끌어다 놓으면 해당 카드 주변에 폭탄이 있는지만 알려준다
+ */
+const ScannerSlot = ({ movesLeft }: { movesLeft: number }) => (
+  <DropArea
+    id={SCANNER_SLOT_ID}
+    isOver={false}
+    rule={SCANNER_DROP_RULE}
+    className={`border-2 border-dashed ${movesLeft > 0 ? "border-emerald-400 text-emerald-600" : "border-gray-300 text-gray-400"}`}
+  >
+    <div className="flex flex-col items-center text-center">
+      <span className="text-2xl">📡</span>
+      <span className="text-xs mt-1">스캐너</span>
+      <span className="text-[10px]">{movesLeft > 0 ? "여기에 드롭" : "이동 소진"}</span>
+    </div>
+  </DropArea>
+);
+
+/**
+ * 게임 설정 패널 컴포넌트
+ */
+const SettingsPanel = ({
+  settings,
+  onChange,
+}: {
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+}) => {
+  const [draft, setDraft] = useState<GameSettings>(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handlePreset = (difficulty: Exclude<Difficulty, "custom">) => {
+    onChange(DIFFICULTY_PRESETS[difficulty]);
+  };
+
+  const handleDraftChange = (key: "rows" | "cols" | "bombCount", value: string) => {
+    setDraft(prev => ({ ...prev, difficulty: "custom", [key]: Number(value) }));
+  };
+
+  const handleApplyCustom = () => {
+    onChange(clampSettings({ ...draft, difficulty: "custom" }));
+  };
+
+  return (
+    <div className="mb-6 flex flex-col items-center gap-3">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(DIFFICULTY_PRESETS) as Exclude<Difficulty, "custom">[]).map(difficulty => (
+          <button
+            key={difficulty}
+            onClick={() => handlePreset(difficulty)}
+            className={`px-3 py-1 text-sm rounded-md transition-colors
+              ${draft.difficulty === difficulty ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+          >
+            {DIFFICULTY_LABELS[difficulty]}
+          </button>
+        ))}
+        <button
+          onClick={() => setDraft(prev => ({ ...prev, difficulty: "custom" }))}
+          className={`px-3 py-1 text-sm rounded-md transition-colors
+            ${draft.difficulty === "custom" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+        >
+          {DIFFICULTY_LABELS.custom}
+        </button>
+      </div>
+
+      {draft.difficulty === "custom" && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-gray-600">
+          <label className="flex items-center gap-1">
+            행
+            <input
+              type="number"
+              min={MIN_GRID_SIZE}
+              max={MAX_GRID_SIZE}
+              value={draft.rows}
+              onChange={e => handleDraftChange("rows", e.target.value)}
+              className="w-14 px-1 py-0.5 border rounded-md"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            열
+            <input
+              type="number"
+              min={MIN_GRID_SIZE}
+              max={MAX_GRID_SIZE}
+              value={draft.cols}
+              onChange={e => handleDraftChange("cols", e.target.value)}
+              className="w-14 px-1 py-0.5 border rounded-md"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            폭탄
+            <input
+              type="number"
+              min={1}
+              max={draft.rows * draft.cols - 1}
+              value={draft.bombCount}
+              onChange={e => handleDraftChange("bombCount", e.target.value)}
+              className="w-14 px-1 py-0.5 border rounded-md"
+            />
+          </label>
+          <button
+            onClick={handleApplyCustom}
+            className="px-3 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors"
+          >
+            적용
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * 시드 표시 및 공유 패널 컴포넌트
+ */
+const SeedPanel = ({
+  seed,
+  shareQuery,
+  onLoadSeed,
+}: {
+  seed: string;
+  shareQuery: string;
+  onLoadSeed: (seed: string) => void;
+}) => {
+  const [seedInput, setSeedInput] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${shareQuery}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      window.prompt("아래 링크를 복사하세요", url);
+    }
+  };
+
+  const handleLoad = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = seedInput.trim();
+    if (!trimmed) return;
+    onLoadSeed(trimmed);
+    setSeedInput("");
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-sm text-gray-600">
+      <span>
+        시드: <code className="px-1.5 py-0.5 bg-gray-100 rounded font-mono text-gray-800">{seed}</code>
+      </span>
+      <button
+        onClick={handleCopy}
+        className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+      >
+        {copied ? "복사됨!" : "공유 링크 복사"}
+      </button>
+      <form onSubmit={handleLoad} className="flex items-center gap-1">
+        <input
+          value={seedInput}
+          onChange={e => setSeedInput(e.target.value)}
+          placeholder="시드 입력"
+          className="w-24 px-1 py-0.5 border rounded-md"
+        />
+        <button
+          type="submit"
+          className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+        >
+          불러오기
+        </button>
+      </form>
+    </div>
+  );
+};
+
+/**
+ * 리더보드 표 컴포넌트
+ */
+const LeaderboardTable = ({
+  difficulty,
+  entries,
+  highlight,
+}: {
+  difficulty: Difficulty;
+  entries: LeaderboardEntry[];
+  highlight: LeaderboardEntry | null;
+}) => (
+  <div className="w-80 mt-4">
+    <h2 className="text-center font-semibold text-gray-700 mb-2">
+      🏆 {DIFFICULTY_LABELS[difficulty]} 리더보드
+    </h2>
+    {entries.length === 0 ? (
+      <p className="text-center text-sm text-gray-500">아직 기록이 없습니다</p>
+    ) : (
+      <table className="w-full text-sm text-gray-700">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal">#</th>
+            <th className="text-left font-normal">이름</th>
+            <th className="text-right font-normal">점수</th>
+            <th className="text-right font-normal">시간</th>
+            <th className="text-right font-normal">이동</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, index) => (
+            <tr key={`${entry.date}-${index}`} className={entry === highlight ? "bg-yellow-100 font-semibold" : ""}>
+              <td>{index + 1}</td>
+              <td className="truncate max-w-[6rem]">{entry.name}</td>
+              <td className="text-right">{entry.score}</td>
+              <td className="text-right">{formatElapsed(entry.elapsedMs)}</td>
+              <td className="text-right">{entry.moves}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+/**
+ * 신기록 이름 입력 컴포넌트
+ */
+const NewRecordForm = ({ onSubmit }: { onSubmit: (name: string) => void }) => {
+  const [name, setName] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(name.trim() || "익명");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 flex flex-col items-center gap-2">
+      <span className="text-yellow-600 font-semibold">✨ 신기록! 이름을 입력하세요</span>
+      <div className="flex gap-2">
+        <input
+          autoFocus
+          value={name}
+          maxLength={12}
+          onChange={e => setName(e.target.value)}
+          placeholder="이름"
+          className="w-32 px-2 py-1 border rounded-md"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 transition-colors"
+        >
+          등록
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default function Page() {
+  const [mounted, setMounted] = useState(false);
+  const [settings, setSettings] = useState<GameSettings>(DIFFICULTY_PRESETS.easy);
+  const [seed, setSeed] = useState("");
+  const [cards, setCards] = useState<Card[]>([]);
+  const [bombFound, setBombFound] = useState(false);
+  const [gameOver, setGameOver] = useState(false);
+  const [flippedCount, setFlippedCount] = useState(0);
+  const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
+  const [revealDelays, setRevealDelays] = useState<Record<string, number>>({});
+  const [flagMode, setFlagMode] = useState(false);
+  const [gameMode, setGameMode] = useState<GameMode>("classic");
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [finishedAt, setFinishedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [moveCount, setMoveCount] = useState(0);
+  const [result, setResult] = useState<GameResult | null>(null);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>({});
+  const [savedEntry, setSavedEntry] = useState<LeaderboardEntry | null>(null);
+  const [replayEvents, setReplayEvents] = useState<TimedEvent<GameReplayEvent>[] | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const liveGameRef = useRef<LiveGameSnapshot | null>(null);
+  const embedded = useIsEmbedded();
+  
+  // 리플레이 재생 중에는 녹화하지 않음
+  const replaying = replayEvents !== null;
+  const {
+    events: recordedEvents,
+    start: startRecording,
+    record: recordEvent,
+  } = useReplayRecorder<GameReplayEvent>(replaying);
+  
+  // 게임 초기화: 저장된 진행 중 게임이 있으면 이어서 하고,
+  // URL에 다른 시드가 있으면 그 보드를 재현
+  // 갤러리 미리보기 iframe은 저장된 게임을 건드리지 않도록 새 판으로만 시작
+  useEffect(() => {
+    const shared = parseShareQuery(window.location.search);
+    const saved = isEmbeddedWindow() ? null : gameStore.load();
+    const sameBoard =
+      saved !== null &&
+      shared !== null &&
+      shared.seed === saved.seed &&
+      shared.settings.rows === saved.settings.rows &&
+      shared.settings.cols === saved.settings.cols &&
+      shared.settings.bombCount === saved.settings.bombCount;
+    
+    if (saved && !saved.gameOver && (!shared || sameBoard)) {
+      restoreGame(saved);
+    } else if (shared) {
+      setSettings(shared.settings);
+      initGame(shared.settings, { seed: shared.seed });
+    } else if (saved) {
+      // 끝난 게임은 설정과 모드만 이어받아 새 판 시작
+      setSettings(saved.settings);
+      setGameMode(saved.gameMode);
+      setPracticeMode(saved.practiceMode);
+      initGame(saved.settings, { mode: saved.gameMode, practice: saved.practiceMode });
+    } else {
+      initGame(DIFFICULTY_PRESETS.easy);
+    }
+    setLeaderboard(loadLeaderboard());
+    setMounted(true);
+    // 마운트 시 한 번만 실행
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  // 게임 진행 중에는 1초마다 시계 갱신
+  useEffect(() => {
+    if (startedAt === null || finishedAt !== null) return;
+    
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt, finishedAt]);
+  
+  // 상태가 바뀔 때마다(진행 중에는 매초) 저장, 리플레이로 재생 중인 보드와 미리보기는 저장하지 않음
+  useEffect(() => {
+    if (!mounted || replaying || embedded) return;
+    
+    gameStore.save({
+      settings,
+      seed,
+      gameMode,
+      practiceMode,
+      cards,
+      flippedCount,
+      moveCount,
+      elapsedMs: startedAt === null ? null : (finishedAt ?? Date.now()) - startedAt,
+      gameOver,
+    });
+  }, [mounted, replaying, embedded, settings, seed, gameMode, practiceMode, cards, flippedCount, moveCount, startedAt, finishedAt, now, gameOver]);
+  
+  const initGame = (
+    gameSettings: GameSettings,
+    {
+      seed: gameSeed = generateSeed(),
+      mode = gameMode,
+      practice = practiceMode,
+    }: { seed?: string; mode?: GameMode; practice?: boolean } = {}
+  ) => {
+    const total = gameSettings.rows * gameSettings.cols;
+    const bombIndices = pickBombIndices(total, gameSettings.bombCount, createSeededRandom(gameSeed));
+    
+    const newCards = Array(total).fill(null).map((_, index) => ({
+      id: `card-${index + 1}`,
+      content: `${index + 1}`,
+      isFlipped: false,
+      isBomb: bombIndices.has(index),
+      isFlagged: false,
+      isScanned: false,
+      scanDanger: null,
+      adjacentBombs: 0
+    }));
+    
+    setCards(withAdjacentCounts(newCards, gameSettings.rows, gameSettings.cols));
+    setRevealDelays({});
+    setBombFound(false);
+    setGameOver(false);
+    setFlippedCount(0);
+    setStartedAt(null);
+    setFinishedAt(null);
+    setMoveCount(0);
+    setResult(null);
+    setSavedEntry(null);
+    setSeed(gameSeed);
+    clearHistory();
+    startRecording({
+      type: "start",
+      seed: gameSeed,
+      settings: gameSettings,
+      gameMode: mode,
+      practiceMode: practice,
+    });
+    
+    // 현재 보드를 주소창에 반영해 새로고침/공유 시 재현되도록
+    window.history.replaceState(null, "", buildShareQuery(gameSettings, gameSeed));
+  };
+  
+  // 저장된 게임 이어서 하기 (실행 취소 기록은 비우고 시계는 저장된 경과 시간부터)
+  // 리플레이는 시드에서 다시 시작해야 재현되므로 이어 한 판은 새 게임부터 녹화됨
+  const restoreGame = (saved: SavedGame) => {
+    setSettings(saved.settings);
+    setSeed(saved.seed);
+    setGameMode(saved.gameMode);
+    setPracticeMode(saved.practiceMode);
+    setCards(saved.cards);
+    setRevealDelays({});
+    setBombFound(false);
+    setGameOver(false);
+    setFlippedCount(saved.flippedCount);
+    setMoveCount(saved.moveCount);
+    setStartedAt(saved.elapsedMs === null ? null : Date.now() - saved.elapsedMs);
+    setFinishedAt(null);
+    setResult(null);
+    setSavedEntry(null);
+    clearHistory();
+    window.history.replaceState(null, "", buildShareQuery(saved.settings, saved.seed));
+  };
+  
+  // 저장된 게임을 지우고 기본 설정으로 새 게임
+  const handleResetToDefault = () => {
+    gameStore.clear();
+    setSettings(DIFFICULTY_PRESETS.easy);
+    setGameMode("classic");
+    setPracticeMode(false);
+    setFlagMode(false);
+    initGame(DIFFICULTY_PRESETS.easy, { mode: "classic", practice: false });
+  };
+  
+  // 설정 변경 시 새 게임 시작
+  const handleSettingsChange = (newSettings: GameSettings) => {
+    setSettings(newSettings);
+    initGame(newSettings);
+  };
+  
+  // 게임 모드 변경 시 새 게임 시작
+  const handleGameModeChange = (mode: GameMode) => {
+    setGameMode(mode);
+    initGame(settings, { mode });
+  };
+  
+  // 연습 모드 전환 시 새 게임 시작 (연습 게임은 기록되지 않음)
+  const handlePracticeToggle = () => {
+    const practice = !practiceMode;
+    setPracticeMode(practice);
+    initGame(settings, { practice });
+  };
+  
+  const safeCardCount = settings.rows * settings.cols - settings.bombCount;
+  const remainingBombs = settings.bombCount - cards.filter(c => c.isFlagged).length;
+  const movesLeft = gameMode === "scanner" ? getMoveBudget(settings) - moveCount : Infinity;
+  const elapsedMs = startedAt === null ? 0 : Math.max(0, (finishedAt ?? now) - startedAt);
+  const leaderboardEntries = leaderboard[settings.difficulty] ?? [];
+  const canSaveRecord =
+    !practiceMode &&
+    result !== null &&
+    savedEntry === null &&
+    isHighScore(leaderboardEntries, result.score);
+  
+  // 두 카드 위치 교환 후 주변 폭탄 수 재계산 (교환은 자기 자신이 역연산)
+  const swapCards = (firstId: string, secondId: string) => {
+    const newCards = [...cards];
+    const firstIndex = newCards.findIndex(c => c.id === firstId);
+    const secondIndex = newCards.findIndex(c => c.id === secondId);
+    if (firstIndex === -1 || secondIndex === -1) return;
+    
+    const temp = newCards[firstIndex];
+    newCards[firstIndex] = newCards[secondIndex];
+    newCards[secondIndex] = temp;
+    
+    // 위치가 바뀌었으니 아직 숨은 카드의 주변 폭탄 수를 다시 계산 (공개된 숫자는 그대로)
+    setCards(withAdjacentCounts(newCards, settings.rows, settings.cols));
+  };
+  
+  // 뒤집기 액션 반영
+  const applyFlip = (action: Extract<GameAction, { type: "flip" }>) => {
+    const flippedCard = cards.find(c => c.id === action.id);
+    if (!flippedCard) return;
+    
+    // 첫 뒤집기에서 시계 시작
+    const flipTime = Date.now();
+    const gameStartedAt = startedAt ?? flipTime;
+    if (startedAt === null) {
+      setStartedAt(flipTime);
+    }
+    
+    const delays: Record<string, number> = {};
+    Object.entries(action.revealed).forEach(([id, distance]) => {
+      delays[id] = distance * REVEAL_STAGGER_MS;
+    });
+    setRevealDelays(delays);
+    setCards(cards.map(c => (c.id in action.revealed ? { ...c, isFlipped: true } : c)));
+    
+    // 폭탄 체크
+    if (flippedCard.isBomb) {
+      setBombFound(true);
+      setGameOver(true);
+      setFinishedAt(flipTime);
+      recordEvent({ type: "gameOver", won: false });
+      return;
+    }
+    
+    const newFlippedCount = flippedCount + Object.keys(action.revealed).length;
+    setFlippedCount(newFlippedCount);
+    
+    if (newFlippedCount === safeCardCount) {
+      const totalMs = flipTime - gameStartedAt;
+      setGameOver(true);
+      setFinishedAt(flipTime);
+      setResult({
+        score: computeScore(settings, totalMs, moveCount),
+        elapsedMs: totalMs,
+        moves: moveCount,
+      });
+      recordEvent({ type: "gameOver", won: true });
+    }
+  };
+  
+  // 뒤집기 액션 되돌리기 (게임 종료 상태도 함께 해제)
+  const revertFlip = (action: Extract<GameAction, { type: "flip" }>) => {
+    const flippedCard = cards.find(c => c.id === action.id);
+    if (!flippedCard) return;
+    
+    setRevealDelays({});
+    setCards(cards.map(c => (c.id in action.revealed ? { ...c, isFlipped: false } : c)));
+    
+    if (flippedCard.isBomb) {
+      setBombFound(false);
+    } else {
+      setFlippedCount(prev => prev - Object.keys(action.revealed).length);
+    }
+    setGameOver(false);
+    setFinishedAt(null);
+    setResult(null);
+  };
+  
+  const applyAction = (action: GameAction) => {
+    switch (action.type) {
+      case "swap":
+        swapCards(action.activeId, action.overId);
+        setMoveCount(prev => prev + 1);
+        break;
+      case "scan":
+        setCards(cards.map(c => (c.id === action.id ? { ...c, isScanned: true, scanDanger: c.adjacentBombs > 0 } : c)));
+        setMoveCount(prev => prev + 1);
+        break;
+      case "flip":
+        applyFlip(action);
+        break;
+    }
+  };
+  
+  const revertAction = (action: GameAction) => {
+    switch (action.type) {
+      case "swap":
+        swapCards(action.activeId, action.overId);
+        setMoveCount(prev => prev - 1);
+        break;
+      case "scan":
+        setCards(cards.map(c => (c.id === action.id ? { ...c, isScanned: false, scanDanger: null } : c)));
+        setMoveCount(prev => prev - 1);
+        break;
+      case "flip":
+        revertFlip(action);
+        break;
+    }
+  };
+  
+  // 뒤집기/스캔은 정보를 드러내므로 연습 모드에서만 되돌릴 수 있음
+  // 스캔을 한 번 쓴 뒤에는 이동을 돌려받는 교환 되돌리기로 스캔 결과를 떠보지 못하게 교환도 막음
+  const isReversible = (action: GameAction) =>
+    practiceMode || (action.type === "swap" && !gameOver && !cards.some(c => c.isScanned));
+  
+  const {
+    execute,
+    undo,
+    redo,
+    clear: clearHistory,
+    canUndo,
+    canRedo,
+  } = useHistory<GameAction>({
+    apply: applyAction,
+    revert: revertAction,
+    canUndo: isReversible,
+    canRedo: isReversible,
+    onUndo: () => recordEvent({ type: "undo" }),
+    onRedo: () => recordEvent({ type: "redo" }),
+    enableShortcuts: !replaying,
+  });
+  
+  // 카드 뒤집기 핸들러
+  const handleFlip = useCallback((id: string) => {
+    if (gameOver) return;
+    
+    const cardIndex = cards.findIndex(c => c.id === id);
+    if (cardIndex === -1 || cards[cardIndex].isFlipped || cards[cardIndex].isFlagged) return;
+    
+    // 폭탄이면 해당 카드만, 아니면 주변 폭탄이 0인 카드를 따라 연쇄적으로 공개
+    const revealed: Record<string, number> = {};
+    if (cards[cardIndex].isBomb) {
+      revealed[id] = 0;
+    } else {
+      collectRevealWave(cards, cardIndex, settings.rows, settings.cols).forEach((distance, index) => {
+        revealed[cards[index].id] = distance;
+      });
+    }
+    
+    recordEvent({ type: "flip", id });
+    execute({ type: "flip", id, revealed });
+  }, [cards, gameOver, settings, execute, recordEvent]);
+  
+  // 신기록 등록
+  const handleSaveRecord = (name: string) => {
+    if (!result) return;
+    
+    const entry: LeaderboardEntry = {
+      ...result,
+      name,
+      seed,
+      date: new Date().toISOString(),
+    };
+    const entries = [...leaderboardEntries, entry]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LEADERBOARD_SIZE);
+    const updated = { ...loadLeaderboard(), [settings.difficulty]: entries };
+    
+    saveLeaderboard(updated);
+    setLeaderboard(updated);
+    setSavedEntry(entry);
+  };
+  
+  // 깃발 토글 핸들러
+  const handleToggleFlag = useCallback((id: string) => {
+    if (gameOver) return;
+    
+    recordEvent({ type: "flag", id });
+    setCards(prevCards =>
+      prevCards.map(card =>
+        card.id === id && !card.isFlipped
+          ? { ...card, isFlagged: !card.isFlagged }
+          : card
+      )
+    );
+  }, [gameOver, recordEvent]);
+  
+  // 드래그 관련 핸들러
+  const sensors = useSensors(
+    useSensor(MouseSensor, {
+      activationConstraint: {
+        distance: 10,
+      },
+    }),
+    // 터치는 길게 눌러야 드래그가 시작되어 짧은 탭(뒤집기)이나 스크롤과 구분됨
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: TOUCH_DRAG_DELAY_MS,
+        tolerance: TOUCH_DRAG_TOLERANCE,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+      keyboardCodes: CARD_KEYBOARD_CODES,
+    })
+  );
+  
+  // 드래그 중이 아닐 때 방향키로 카드 사이 포커스 이동
+  const handleGridKeyDown = useGridKeyboardNavigation(settings.cols, activeId === null);
+  
+  const handleDragStart = (event: DragStartEvent) => {
+    const { active } = event;
+    const cardId = active.id as string;
+    const cardIndex = cards.findIndex(c => c.id === cardId);
+    
+    if (
+      cardIndex === -1 ||
+      cards[cardIndex].isFlipped ||
+      cards[cardIndex].isFlagged ||
+      cards[cardIndex].isScanned ||
+      gameOver ||
+      movesLeft <= 0
+    ) {
+      return;
+    }
+    
+    recordEvent({ type: "dragStart", id: cardId });
+    setActiveId(cardId);
+  };
+  
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    const cardId = active.id as string;
+    const overId = over ? (over.id as string) : null;
+    
+    if (activeId !== null) {
+      recordEvent({ type: "dragEnd", id: cardId, overId });
+    }
+    setActiveId(null);
+    
+    if (overId) {
+      dropCard(cardId, overId);
+    }
+  };
+  
+  // 카드를 다른 카드나 스캐너 슬롯에 놓았을 때 처리 (리플레이에서도 사용)
+  const dropCard = (activeId: string, overId: string) => {
+    if (activeId === overId || gameOver || movesLeft <= 0) return;
+    
+    // 규칙에 맞지 않는 드롭은 무시하므로 미리보기는 원래 자리로 돌아감
+    // (드롭 영역과 같은 규칙으로 다시 확인해 리플레이에서도 똑같이 판단)
+    const activeCard = cards.find(c => c.id === activeId);
+    if (!activeCard) return;
+    
+    // 스캐너 슬롯에 드롭: 카드는 제자리에 두고 주변 폭탄 유무만 표시
+    if (overId === SCANNER_SLOT_ID) {
+      if (!checkDropRule(SCANNER_DROP_RULE, getCardDropSubject(activeCard)).allowed) return;
+      
+      execute({ type: "scan", id: activeId });
+      return;
+    }
+    
+    const overCard = cards.find(c => c.id === overId);
+    if (!overCard || !checkDropRule(getCardDropRule(overCard), getCardDropSubject(activeCard)).allowed) {
+      return;
+    }
+    
+    // 카드 위치 교환
+    execute({ type: "swap", activeId, overId });
+  };
+  
+  // 리플레이 이벤트를 실제 게임 동작으로 재현
+  const handleReplayEvent = (event: GameReplayEvent) => {
+    switch (event.type) {
+      case "start":
+        setSettings(event.settings);
+        setGameMode(event.gameMode);
+        setPracticeMode(event.practiceMode);
+        initGame(event.settings, {
+          seed: event.seed,
+          mode: event.gameMode,
+          practice: event.practiceMode,
+        });
+        break;
+      case "dragStart":
+        setActiveId(event.id);
+        break;
+      case "dragEnd":
+        setActiveId(null);
+        if (event.overId) {
+          dropCard(event.id, event.overId);
+        }
+        break;
+      case "flip":
+        handleFlip(event.id);
+        break;
+      case "flag":
+        handleToggleFlag(event.id);
+        break;
+      case "undo":
+        undo();
+        break;
+      case "redo":
+        redo();
+        break;
+      case "gameOver":
+        // 결과는 flip 재현으로 이미 반영됨
+        break;
+    }
+  };
+  
+  const player = useReplayPlayer(replayEvents ?? [], handleReplayEvent);
+  
+  // 리플레이 시작: 첫 start 이벤트를 재생하면 녹화 당시 보드로 초기화됨
+  // 재생 중에는 녹화와 저장이 멈추므로, 보던 게임을 기억해 두었다가 닫을 때 되돌림
+  const startReplay = (events: TimedEvent<GameReplayEvent>[]) => {
+    if (!replaying) {
+      liveGameRef.current = {
+        saved: {
+          settings,
+          seed,
+          gameMode,
+          practiceMode,
+          cards,
+          flippedCount,
+          moveCount,
+          elapsedMs: startedAt === null ? null : (finishedAt ?? Date.now()) - startedAt,
+          gameOver,
+        },
+        bombFound,
+        result,
+        savedEntry,
+      };
+    }
+    setReplayError(null);
+    setReplayEvents(events);
+    player.rewind();
+  };
+  
+  const handleImportReplay = (json: string) => {
+    const events = parseReplay(json, REPLAY_KIND, "start", isGameReplayEvent);
+    if (!events) {
+      setReplayError("올바른 폭탄 찾기 리플레이 파일이 아닙니다");
+      return;
+    }
+    startReplay(events);
+  };
+  
+  const handleExitReplay = () => {
+    const live = liveGameRef.current;
+    liveGameRef.current = null;
+    setReplayEvents(null);
+    player.rewind();
+    setActiveId(null);
+    if (!live) {
+      initGame(settings);
+      return;
+    }
+    // 시계는 리플레이를 보기 전 경과 시간부터 다시 흐름
+    restoreGame(live.saved);
+    setGameOver(live.saved.gameOver);
+    setFinishedAt(live.saved.gameOver ? Date.now() : null);
+    setBombFound(live.bombFound);
+    setResult(live.result);
+    setSavedEntry(live.savedEntry);
+  };
+  
+  // 리플레이 재생 중에는 직접 조작을 막음
+  const lockedClass = replaying ? "pointer-events-none opacity-60" : "";
+  
+  // 카드 ID 배열
+  const cardIds = cards.map(card => card.id);
+
+  // 드래그 미리보기에 그릴 카드
+  const activeCard = activeId !== null ? cards.find(card => card.id === activeId) : undefined;
+  
+  if (!mounted) {
+    return <div className="min-h-screen flex items-center justify-center">로딩 중...</div>;
+  }
+  
+  return (
+    <DndContext
+      sensors={sensors}
+      accessibility={{
+        announcements: cardAnnouncements,
+        screenReaderInstructions: cardScreenReaderInstructions,
+      }}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+    >
+      <SortableContext items={cardIds} strategy={rectSortingStrategy}>
+        <div className="flex flex-col items-center justify-center min-h-screen px-4 py-6">
+          <h1 className="text-2xl font-bold mb-4 text-gray-700">폭탄 찾기 게임</h1>
+          <p className="mb-1 text-gray-600">카드를 클릭하여 뒤집거나 드래그하여 순서를 변경해보세요</p>
+          <p className="mb-4 text-xs text-gray-500">공개된 숫자는 뒤집은 순간의 주변 폭탄 수예요. 카드를 옮겨도 바뀌지 않아요.</p>
+          
+          <div className={`flex flex-col items-center ${lockedClass}`}>
+            <SettingsPanel settings={settings} onChange={handleSettingsChange} />
+            <p className="mb-4 text-sm text-gray-500">
+              {settings.rows} x {settings.cols} · 폭탄 {settings.bombCount}개
+            </p>
+          
+            <SeedPanel
+              seed={seed}
+              shareQuery={buildShareQuery(settings, seed)}
+              onLoadSeed={loadedSeed => initGame(settings, { seed: loadedSeed })}
+            />
+          
+            <div className="mb-4 flex flex-wrap justify-center gap-2">
+              {(Object.keys(GAME_MODE_LABELS) as GameMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => handleGameModeChange(mode)}
+                  className={`px-3 py-1 text-sm rounded-md transition-colors
+                    ${gameMode === mode ? "bg-emerald-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+                >
+                  {GAME_MODE_LABELS[mode]} 모드
+                </button>
+              ))}
+              <button
+                onClick={handlePracticeToggle}
+                className={`px-3 py-1 text-sm rounded-md transition-colors
+                  ${practiceMode ? "bg-purple-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+              >
+                🎓 연습 모드 {practiceMode ? "켜짐" : "꺼짐"}
+              </button>
+              <button
+                onClick={handleResetToDefault}
+                title="저장된 게임과 설정을 지우고 처음 상태로"
+                className="px-3 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+              >
+                ↺ 기본값으로
+              </button>
+            </div>
+          </div>
+          
+          <div className="mb-4 flex flex-wrap items-center justify-center gap-4">
+            <span className="text-gray-700 font-semibold">🚩 남은 폭탄: {remainingBombs}</span>
+            <span className="text-gray-700 font-semibold font-mono">⏱ {formatElapsed(elapsedMs)}</span>
+            {gameMode === "scanner" ? (
+              <span className={`font-semibold ${movesLeft > 0 ? "text-gray-700" : "text-red-500"}`}>
+                ↔ 남은 이동: {movesLeft} / {getMoveBudget(settings)}
+              </span>
+            ) : (
+              <span className="text-gray-700 font-semibold">↔ 이동: {moveCount}</span>
+            )}
+            <button
+              onClick={() => setFlagMode(prev => !prev)}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${lockedClass}
+                ${flagMode ? "bg-amber-500 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+            >
+              {flagMode ? "🚩 깃발 모드" : "👆 뒤집기 모드"}
+            </button>
+            <div className={`flex gap-1 ${lockedClass}`}>
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                title="실행 취소 (Ctrl+Z)"
+                className="px-2 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ↶ 취소
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                title="다시 실행 (Ctrl+Shift+Z)"
+                className="px-2 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                ↷ 다시
+              </button>
+            </div>
+          </div>
+          
+          {gameOver && (
+            <div className="mb-4">
+              <div className={`text-center text-xl mb-4 ${bombFound ? 'text-red-500' : 'text-green-500'}`}>
+                {bombFound ? '💥 폭탄을 찾았습니다!' : '🎉 성공! 모든 안전 카드를 찾았습니다!'}
+              </div>
+              <div className={`flex justify-center gap-2 ${lockedClass}`}>
+                <button 
+                  onClick={() => initGame(settings)}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors"
+                >
+                  게임 재시작
+                </button>
+                <button 
+                  onClick={() => initGame(settings, { seed })}
+                  className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                  같은 판 다시
+                </button>
+              </div>
+              {result && (
+                <p className="mt-3 text-center text-gray-700">
+                  점수 <span className="font-bold">{result.score}</span>
+                  {" · "}시간 {formatElapsed(result.elapsedMs)}
+                  {" · "}이동 {result.moves}회
+                </p>
+              )}
+              {canSaveRecord && <NewRecordForm onSubmit={handleSaveRecord} />}
+              <LeaderboardTable
+                difficulty={settings.difficulty}
+                entries={leaderboardEntries}
+                highlight={savedEntry}
+              />
+            </div>
+          )}
+          
+          <div
+            className={`flex flex-wrap items-start justify-center gap-4 ${replaying ? "pointer-events-none" : ""}`}
+            style={{ "--tile-size": getTileSize(settings.cols) } as React.CSSProperties}
+          >
+            <motion.div 
+              className="grid gap-2 p-2 sm:gap-4 sm:p-8"
+              style={{ gridTemplateColumns: `repeat(${settings.cols}, minmax(0, 1fr))` }}
+              layout
+              onKeyDown={handleGridKeyDown}
+            >
+              <AnimatePresence mode="popLayout">
+                {cards.map((card, index) => (
+                  <motion.div
+                    key={card.id}
+                    layout
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.8 }}
+                    transition={{
+                      type: "spring",
+                      stiffness: 400,
+                      damping: 25,
+                      mass: 1
+                    }}
+                  >
+                    <DropArea
+                      id={card.id}
+                      isOver={false}
+                      rule={getCardDropRule(card)}
+                    >
+                      <DraggableCard
+                        card={card}
+                        isDragging={activeId === card.id}
+                        onFlip={flagMode ? handleToggleFlag : handleFlip}
+                        onToggleFlag={handleToggleFlag}
+                        revealDelay={revealDelays[card.id] ?? 0}
+                        gridIndex={index}
+                        dragDisabled={gameOver || movesLeft <= 0}
+                      />
+                    </DropArea>
+                  </motion.div>
+                ))}
+              </AnimatePresence>
+            </motion.div>
+          
+            {gameMode === "scanner" && (
+              <div className="py-2 sm:py-8">
+                <ScannerSlot movesLeft={movesLeft} />
+              </div>
+            )}
+          </div>
+
+          {/* 포털은 그리드 밖이라 타일 크기 변수를 다시 넘김 */}
+          <DragPreviewOverlay style={{ "--tile-size": getTileSize(settings.cols) } as React.CSSProperties}>
+            {activeCard && (
+              <div className={`relative ${TILE_SIZE_CLASS}`}>
+                <CardFront
+                  content={activeCard.content}
+                  isFlagged={activeCard.isFlagged}
+                  scanDanger={activeCard.scanDanger}
+                />
+              </div>
+            )}
+          </DragPreviewOverlay>
+          
+          <p className="mt-6 text-gray-600 text-sm flex flex-wrap items-center justify-center gap-2">
+            <span className="px-2 py-1 bg-blue-500 text-white text-xs rounded-md">드래그</span> 
+            <span>순서 변경</span>
+            <span className="ml-2 px-2 py-1 bg-gray-700 text-white text-xs rounded-md">클릭</span>
+            <span>카드 뒤집기</span>
+            <span className="ml-2 px-2 py-1 bg-amber-500 text-white text-xs rounded-md">우클릭 / 길게 누르기</span>
+            <span>깃발 표시</span>
+            <span className="ml-2 px-2 py-1 bg-blue-400 text-white text-xs rounded-md">📱 탭 / 길게 누르기</span>
+            <span>뒤집기 / 드래그</span>
+            <span className="ml-2 px-2 py-1 bg-gray-500 text-white text-xs rounded-md">방향키 · Enter · F · M</span>
+            <span>키보드 조작</span>
+            {gameMode === "scanner" && (
+              <>
+                <span className="ml-2 px-2 py-1 bg-emerald-500 text-white text-xs rounded-md">📡 드롭</span>
+                <span>주변 폭탄 확인</span>
+              </>
+            )}
+          </p>
+          
+          <ReplayControls
+            recordedCount={recordedEvents.length}
+            player={replaying ? player : null}
+            error={replayError}
+            onExport={() => downloadReplay(REPLAY_KIND, recordedEvents)}
+            onImport={handleImportReplay}
+            onReplayRecording={() => startReplay(recordedEvents)}
+            onExit={handleExitReplay}
+          />
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "색상 정렬 챌린지",
+  description: "섞인 박스를 색상·번호·보기 순서대로 늘어놓는 정렬 챌린지",
+};
+
+export default function ChallengeLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
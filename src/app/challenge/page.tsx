@@ -0,0 +1,284 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { SwapGrid, SwapGridTileState } from "@/components/SwapGrid";
+import {
+  ChallengeTarget,
+  countMinSwaps,
+  rateEfficiency,
+  shuffleIds,
+} from "@/lib/colorChallenge";
+
+// 챌린지 박스 (hue는 색상환 각도, number는 박스에 적힌 번호)
+interface ChallengeBox {
+  id: string;
+  hue: number;
+  number: number;
+  order: number;
+}
+
+// 한 문제 (boxes의 order가 섞인 시작 순서, target은 맞춰야 할 ID 순서)
+interface Challenge {
+  boxes: ChallengeBox[];
+  target: string[];
+  minSwaps: number;
+}
+
+const BOX_COUNT = 9;
+
+const TARGET_LABELS: Record<ChallengeTarget, string> = {
+  hue: "무지개 순서",
+  number: "번호 순서",
+  pattern: "보기 따라 하기",
+};
+
+const TARGET_HINTS: Record<ChallengeTarget, string> = {
+  hue: "빨강에서 보라까지 색이 이어지도록 늘어놓으세요.",
+  number: "적힌 번호가 1부터 차례대로 오도록 늘어놓으세요.",
+  pattern: "위의 보기와 똑같은 순서로 늘어놓으세요.",
+};
+
+// 완성 축하 조각 개수
+const CONFETTI_COUNT = 18;
+
+const getBoxColor = (box: ChallengeBox) => `hsl(${box.hue} 75% 55%)`;
+
+/**
+ * 새 문제: 번호는 색과 상관없이 섞어 붙이고, 시작 순서는 목표와 다르게 섞음
+ */
+const createChallenge = (targetKind: ChallengeTarget): Challenge => {
+  const ids = Array.from({ length: BOX_COUNT }, (_, index) => `box-${index + 1}`);
+  const numbers = shuffleIds(ids).map((id) => Number(id.replace("box-", "")));
+  const base = ids.map((id, index) => ({
+    id,
+    hue: Math.round((index * 300) / (BOX_COUNT - 1)),
+    number: numbers[index],
+    order: index,
+  }));
+
+  const target =
+    targetKind === "hue"
+      ? ids
+      : targetKind === "number"
+        ? [...base].sort((a, b) => a.number - b.number).map((box) => box.id)
+        : shuffleIds(ids);
+  const start = shuffleIds(ids, target);
+
+  return {
+    boxes: base.map((box) => ({ ...box, order: start.indexOf(box.id) })),
+    target,
+    minSwaps: countMinSwaps(start, target),
+  };
+};
+
+/**
+ * 챌린지 박스 타일 (놓았을 때 그 칸이 맞는지 바로 표시)
+ */
+const ChallengeTile = ({
+  box,
+  isCorrect,
+  isDragging,
+}: {
+  box: ChallengeBox;
+  isCorrect: boolean;
+  isDragging: boolean;
+}) => (
+  <div
+    className={`relative w-full h-full text-white flex items-center justify-center rounded-lg shadow-md transition-shadow
+      ${isCorrect ? "ring-4 ring-emerald-400" : "ring-4 ring-red-300"} ${isDragging ? "opacity-90" : ""}`}
+    style={{ backgroundColor: getBoxColor(box) }}
+  >
+    <span className="text-2xl font-bold drop-shadow">{box.number}</span>
+    <span
+      aria-hidden
+      className={`absolute -top-2 -right-2 w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center shadow
+        ${isCorrect ? "bg-emerald-500 text-white" : "bg-white text-red-500"}`}
+    >
+      {isCorrect ? "✓" : "✗"}
+    </span>
+  </div>
+);
+
+/**
+ * 완성했을 때 가운데에서 터져 나가는 축하 조각
+ */
+const Celebration = () => {
+  // 조각마다 방향과 거리는 처음 그릴 때 한 번만 정함
+  const pieces = useMemo(
+    () =>
+      Array.from({ length: CONFETTI_COUNT }, (_, index) => {
+        const angle = (index / CONFETTI_COUNT) * Math.PI * 2 + Math.random() * 0.3;
+        const distance = 120 + Math.random() * 80;
+        return {
+          x: Math.cos(angle) * distance,
+          y: Math.sin(angle) * distance,
+          rotate: Math.random() * 360,
+          hue: Math.round(Math.random() * 360),
+        };
+      }),
+    []
+  );
+
+  return (
+    <div className="pointer-events-none absolute inset-0 flex items-center justify-center" aria-hidden>
+      {pieces.map((piece, index) => (
+        <motion.span
+          key={index}
+          className="absolute w-3 h-3 rounded-sm"
+          style={{ backgroundColor: `hsl(${piece.hue} 80% 60%)` }}
+          initial={{ x: 0, y: 0, opacity: 1, scale: 0.5, rotate: 0 }}
+          animate={{ x: piece.x, y: piece.y, opacity: 0, scale: 1, rotate: piece.rotate }}
+          transition={{ duration: 1.2, ease: "easeOut" }}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const [targetKind, setTargetKind] = useState<ChallengeTarget>("hue");
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [moves, setMoves] = useState(0);
+  // 새 문제마다 그리드를 새로 마운트
+  const [round, setRound] = useState(0);
+
+  const startChallenge = (nextTarget: ChallengeTarget) => {
+    setTargetKind(nextTarget);
+    setChallenge(createChallenge(nextTarget));
+    setMoves(0);
+    setRound((count) => count + 1);
+  };
+
+  // 섞기는 클라이언트에서만
+  useEffect(() => {
+    setChallenge(createChallenge("hue"));
+  }, []);
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기
+  if (!mounted || !challenge) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  const { boxes, target, minSwaps } = challenge;
+  const currentIds = [...boxes].sort((a, b) => a.order - b.order).map((box) => box.id);
+  const solved = currentIds.every((id, index) => id === target[index]);
+  const correctCount = currentIds.filter((id, index) => id === target[index]).length;
+  const rating = rateEfficiency(minSwaps, moves);
+
+  const handleChange = (next: ChallengeBox[]) => {
+    setChallenge({ ...challenge, boxes: next });
+    setMoves((count) => count + 1);
+  };
+
+  const renderTile = (box: ChallengeBox, { isDragging, order }: SwapGridTileState) => (
+    <ChallengeTile box={box} isCorrect={target[order] === box.id} isDragging={isDragging} />
+  );
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 px-4 py-10">
+      <h1 className="text-2xl font-bold mb-6 text-gray-700">색상 정렬 챌린지</h1>
+
+      <div role="radiogroup" aria-label="목표 순서" className="mb-4 flex rounded-md bg-gray-200 p-0.5 text-sm">
+        {(Object.keys(TARGET_LABELS) as ChallengeTarget[]).map((option) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={targetKind === option}
+            onClick={() => startChallenge(option)}
+            className={`px-3 py-1 rounded transition-colors ${
+              targetKind === option ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+            }`}
+          >
+            {TARGET_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <p className="mb-3 text-sm text-gray-600">{TARGET_HINTS[targetKind]}</p>
+
+      {targetKind === "pattern" && (
+        <div className="mb-4 grid grid-cols-3 gap-1" aria-label="목표 순서 보기">
+          {target.map((id) => {
+            const box = boxes.find((candidate) => candidate.id === id)!;
+            return (
+              <span
+                key={id}
+                className="w-7 h-7 rounded text-xs font-bold text-white flex items-center justify-center shadow-sm"
+                style={{ backgroundColor: getBoxColor(box) }}
+              >
+                {box.number}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="relative" inert={solved}>
+        <SwapGrid
+          key={round}
+          items={boxes}
+          columns={3}
+          renderTile={renderTile}
+          onChange={handleChange}
+          getItemLabel={(box) => `${box.number}번 박스`}
+          controls={false}
+          lockMode
+          previewSwaps
+        />
+        {solved && <Celebration />}
+      </div>
+
+      <div className="mt-4 flex gap-4 text-sm text-gray-600" aria-live="polite">
+        <span>
+          이동: <span className="font-semibold text-gray-800">{moves}</span>
+        </span>
+        <span>
+          맞은 칸: <span className="font-semibold text-gray-800">{correctCount}/{BOX_COUNT}</span>
+        </span>
+        <span>
+          최소 교환: <span className="font-semibold text-gray-800">{minSwaps}</span>
+        </span>
+      </div>
+
+      <AnimatePresence>
+        {solved && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.8 }}
+            transition={{ type: "spring", stiffness: 400, damping: 20 }}
+            className="mt-4 px-4 py-2 rounded-lg bg-emerald-100 text-emerald-700 text-center"
+            role="status"
+          >
+            <div className="font-semibold">🎉 {moves}번 만에 완성했어요!</div>
+            <div className="mt-1 text-sm">
+              <span aria-label={`별 ${rating.stars}개`}>
+                {"★".repeat(rating.stars)}
+                <span className="text-emerald-300">{"★".repeat(3 - rating.stars)}</span>
+              </span>{" "}
+              {rating.label}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        onClick={() => startChallenge(targetKind)}
+        className="mt-4 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+      >
+        새 문제
+      </button>
+    </div>
+  );
+}
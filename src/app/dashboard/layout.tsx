@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "대시보드",
+  description: "여러 칸을 차지하는 위젯을 옮기고 크기를 바꾸는 대시보드 그리드",
+};
+
+export default function DashboardLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  DndContext,
+  useDraggable,
+  DragMoveEvent,
+  DragStartEvent,
+  UniqueIdentifier,
+} from "@dnd-kit/core";
+import { motion } from "framer-motion";
+import { DragPreviewOverlay } from "@/components/DragPreviewOverlay";
+import { createKoreanAnnouncements, createKoreanInstructions } from "@/lib/dndAnnouncements";
+import { createVersionedStore } from "@/lib/versionedStorage";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useBoardSensors } from "@/hooks/useBoardSensors";
+import {
+  DashboardLayout,
+  DashboardTile,
+  MAX_TILE_ROWS,
+  getLayoutRows,
+  isDashboardLayout,
+  moveTile,
+  packLayout,
+  resizeTile,
+} from "@/lib/dashboardLayout";
+
+// 대시보드 위젯 (배치와 따로 두어 배치만 JSON으로 저장)
+interface Widget {
+  id: string;
+  title: string;
+  color: string;
+  value: string;
+}
+
+const WIDGETS: Widget[] = [
+  { id: "visitors", title: "방문자", color: "bg-blue-500", value: "1,284" },
+  { id: "sales", title: "매출", color: "bg-green-500", value: "₩3.2M" },
+  { id: "orders", title: "주문", color: "bg-purple-500", value: "342" },
+  { id: "errors", title: "오류", color: "bg-red-500", value: "7" },
+  { id: "signups", title: "가입", color: "bg-yellow-500", value: "58" },
+  { id: "latency", title: "응답 시간", color: "bg-pink-500", value: "212ms" },
+];
+
+const COLUMNS = 6;
+
+// 한 행 높이와 칸 사이 간격 (px, 드래그 위치를 칸 좌표로 바꿀 때도 사용)
+const ROW_HEIGHT = 96;
+const GAP = 12;
+
+const INITIAL_LAYOUT: DashboardLayout = {
+  columns: COLUMNS,
+  tiles: [
+    { id: "visitors", x: 0, y: 0, w: 2, h: 2 },
+    { id: "sales", x: 2, y: 0, w: 4, h: 1 },
+    { id: "orders", x: 2, y: 1, w: 2, h: 1 },
+    { id: "errors", x: 4, y: 1, w: 2, h: 1 },
+    { id: "signups", x: 0, y: 2, w: 3, h: 1 },
+    { id: "latency", x: 3, y: 2, w: 3, h: 1 },
+  ],
+};
+
+// 저장된 배치가 이 대시보드의 위젯과 맞는지
+const isWidgetLayout = (data: unknown): data is DashboardLayout =>
+  isDashboardLayout(data) &&
+  data.columns === COLUMNS &&
+  data.tiles.length === WIDGETS.length &&
+  WIDGETS.every((widget) => data.tiles.some((tile) => tile.id === widget.id));
+
+// 새로고침해도 배치가 유지되도록 저장
+const layoutStore = createVersionedStore<DashboardLayout>({
+  key: "dashboard:layout",
+  version: 1,
+  validate: isWidgetLayout,
+});
+
+const getWidget = (id: string) => WIDGETS.find((widget) => widget.id === id)!;
+
+// 칸 하나의 너비 + 간격 (px), 그리드가 아직 없으면 0
+const getColumnPitch = (grid: HTMLElement | null) =>
+  grid ? (grid.getBoundingClientRect().width - GAP * (COLUMNS - 1)) / COLUMNS + GAP : 0;
+
+const ROW_PITCH = ROW_HEIGHT + GAP;
+
+/**
+ * 위젯 내용 (그리드와 드래그 미리보기에서 같이 사용)
+ */
+const WidgetBody = ({ widget, tile }: { widget: Widget; tile: DashboardTile }) => (
+  <div className="flex-1 flex flex-col items-center justify-center">
+    <span className="text-2xl sm:text-3xl font-bold">{widget.value}</span>
+    <span className="text-xs mt-1 opacity-80">
+      {tile.w}x{tile.h}
+    </span>
+  </div>
+);
+
+/**
+ * 대시보드 타일: 머리글을 끌어 옮기고, 오른쪽 아래 손잡이를 끌거나 방향키로 크기를 바꿈
+ */
+const DashboardTileView = ({
+  widget,
+  tile,
+  onResizeStart,
+  onResizeBy,
+}: {
+  widget: Widget;
+  tile: DashboardTile;
+  onResizeStart: (e: React.PointerEvent<HTMLElement>) => void;
+  onResizeBy: (dw: number, dh: number) => void;
+}) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: tile.id });
+
+  // 방향키로 한 칸씩 크기 조절
+  const handleResizeKeyDown = (e: React.KeyboardEvent) => {
+    const delta: Record<string, [number, number]> = {
+      ArrowRight: [1, 0],
+      ArrowLeft: [-1, 0],
+      ArrowDown: [0, 1],
+      ArrowUp: [0, -1],
+    };
+    if (!(e.key in delta)) return;
+    e.preventDefault();
+    onResizeBy(...delta[e.key]);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`relative w-full h-full flex flex-col rounded-lg shadow-md text-white ${widget.color}
+        ${isDragging ? "opacity-30 outline-dashed outline-2 outline-gray-400" : ""}`}
+    >
+      <div
+        {...listeners}
+        {...attributes}
+        aria-label={`${widget.title} 위젯 옮기기, ${tile.x + 1}열 ${tile.y + 1}행, ${tile.w}x${tile.h}`}
+        className="px-3 py-1.5 text-sm font-semibold border-b border-white/20 cursor-grab touch-manipulation select-none rounded-t-lg focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300"
+      >
+        {widget.title}
+      </div>
+      <WidgetBody widget={widget} tile={tile} />
+      <button
+        aria-label={`${widget.title} 크기 조절 (방향키)`}
+        onPointerDown={onResizeStart}
+        onKeyDown={handleResizeKeyDown}
+        className="absolute right-0 bottom-0 w-5 h-5 cursor-se-resize touch-none rounded-br-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+      >
+        <svg viewBox="0 0 10 10" className="w-full h-full p-1 opacity-70" aria-hidden>
+          <path d="M9 1L1 9M9 5L5 9" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const { value: layout, setValue: setLayout, reset, loaded } = usePersistentState(layoutStore, INITIAL_LAYOUT);
+  // 드래그·크기 조절 중 미리 보여주는 배치 (끝나면 layout에 반영)
+  const [preview, setPreview] = useState<DashboardLayout | null>(null);
+  const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
+  const [jsonOpen, setJsonOpen] = useState(false);
+  const [jsonDraft, setJsonDraft] = useState("");
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // 드래그 중 마지막으로 계산한 목표 칸 (같은 칸이면 다시 쌓지 않음)
+  const dragTargetRef = useRef<string | null>(null);
+
+  const shown = preview ?? layout;
+
+  // 놓을 칸(droppable)이 없으므로 방향키 한 번에 한 칸씩 움직임
+  const sensors = useBoardSensors((event, { currentCoordinates }) => {
+    const step: Record<string, [number, number]> = {
+      ArrowRight: [getColumnPitch(gridRef.current), 0],
+      ArrowLeft: [-getColumnPitch(gridRef.current), 0],
+      ArrowDown: [0, ROW_PITCH],
+      ArrowUp: [0, -ROW_PITCH],
+    };
+    if (!(event.code in step)) return undefined;
+    event.preventDefault();
+    const [dx, dy] = step[event.code];
+    return { x: currentCoordinates.x + dx, y: currentCoordinates.y + dy };
+  });
+
+  const accessibility = useMemo(
+    () => ({
+      announcements: createKoreanAnnouncements((id) => getWidget(String(id))?.title ?? String(id)),
+      screenReaderInstructions: createKoreanInstructions("Space 또는 Enter"),
+    }),
+    []
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(event.active.id);
+    dragTargetRef.current = null;
+  };
+
+  // 끌고 있는 타일의 왼쪽 위 모서리가 가장 가까운 칸으로 옮긴 배치를 미리 보여줌
+  const handleDragMove = (event: DragMoveEvent) => {
+    const grid = gridRef.current;
+    const rect = event.active.rect.current.translated;
+    if (!grid || !rect) return;
+
+    const origin = grid.getBoundingClientRect();
+    const x = Math.round((rect.left - origin.left) / getColumnPitch(grid));
+    const y = Math.round((rect.top - origin.top) / ROW_PITCH);
+    const target = `${x},${y}`;
+    if (target === dragTargetRef.current) return;
+
+    dragTargetRef.current = target;
+    setPreview(moveTile(layout, String(event.active.id), x, y));
+  };
+
+  // 놓으면 미리 보던 배치를 그대로 반영
+  const handleDragEnd = () => {
+    if (preview) {
+      setLayout(preview);
+    }
+    setPreview(null);
+    setActiveId(null);
+  };
+
+  const handleDragCancel = () => {
+    setPreview(null);
+    setActiveId(null);
+  };
+
+  // 손잡이를 끄는 동안 포인터 이동량을 칸 수로 바꿔 크기를 미리 보여주고, 놓으면 반영
+  const handleResizeStart = (tile: DashboardTile) => (e: React.PointerEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const handle = e.currentTarget;
+    handle.setPointerCapture(e.pointerId);
+    const startX = e.clientX;
+    const startY = e.clientY;
+    const columnPitch = getColumnPitch(gridRef.current);
+    let next: DashboardLayout = layout;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const w = tile.w + Math.round((moveEvent.clientX - startX) / columnPitch);
+      const h = tile.h + Math.round((moveEvent.clientY - startY) / ROW_PITCH);
+      next = resizeTile(layout, tile.id, w, h);
+      setPreview(next);
+    };
+
+    const handleUp = () => {
+      handle.removeEventListener("pointermove", handleMove);
+      handle.removeEventListener("pointerup", handleUp);
+      handle.removeEventListener("pointercancel", handleUp);
+      setLayout(next);
+      setPreview(null);
+    };
+
+    handle.addEventListener("pointermove", handleMove);
+    handle.addEventListener("pointerup", handleUp);
+    handle.addEventListener("pointercancel", handleUp);
+  };
+
+  const handleResizeBy = (tile: DashboardTile) => (dw: number, dh: number) => {
+    setLayout(resizeTile(layout, tile.id, tile.w + dw, tile.h + dh));
+  };
+
+  const handleToggleJson = () => {
+    setJsonDraft(JSON.stringify(layout, null, 2));
+    setJsonError(null);
+    setJsonOpen((open) => !open);
+  };
+
+  // 붙여 넣은 JSON 배치를 검사한 뒤 겹침을 정리해 적용
+  const handleApplyJson = () => {
+    try {
+      const parsed: unknown = JSON.parse(jsonDraft);
+      if (!isWidgetLayout(parsed)) {
+        setJsonError(`${COLUMNS}열 배치에 모든 위젯(${WIDGETS.map((widget) => widget.id).join(", ")})이 있어야 합니다`);
+        return;
+      }
+      const packed = packLayout(parsed);
+      setLayout(packed);
+      setJsonDraft(JSON.stringify(packed, null, 2));
+      setJsonError(null);
+    } catch {
+      setJsonError("JSON 형식이 올바르지 않습니다");
+    }
+  };
+
+  // 보안 출처가 아니거나 권한이 막혀 있으면 writeText가 실패하므로 결과를 알려줌
+  const handleCopyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(layout));
+      setCopyStatus("복사했어요");
+    } catch {
+      setCopyStatus("복사하지 못했어요. 위 칸에서 직접 복사하세요");
+    }
+    setTimeout(() => setCopyStatus(null), 1500);
+  };
+
+  const activeTile = activeId !== null ? shown.tiles.find((tile) => tile.id === activeId) : undefined;
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기 (저장된 배치를 불러온 뒤 그림)
+  if (!mounted || !loaded) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      accessibility={accessibility}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <div className="flex flex-col items-center min-h-screen bg-gray-50 px-4 py-10">
+        <h1 className="text-2xl font-bold mb-8 text-gray-700">대시보드</h1>
+
+        <div
+          ref={gridRef}
+          className="relative grid w-full max-w-4xl p-0"
+          style={{
+            gridTemplateColumns: `repeat(${COLUMNS}, minmax(0, 1fr))`,
+            gridAutoRows: ROW_HEIGHT,
+            gap: GAP,
+            minHeight: Math.max(1, getLayoutRows(shown) + (activeId !== null ? MAX_TILE_ROWS : 0)) * ROW_PITCH - GAP,
+          }}
+        >
+          {shown.tiles.map((tile) => (
+            <motion.div
+              key={tile.id}
+              layout
+              transition={{ type: "spring", stiffness: 400, damping: 35 }}
+              style={{
+                gridColumn: `${tile.x + 1} / span ${tile.w}`,
+                gridRow: `${tile.y + 1} / span ${tile.h}`,
+              }}
+            >
+              <DashboardTileView
+                widget={getWidget(tile.id)}
+                tile={tile}
+                onResizeStart={handleResizeStart(tile)}
+                onResizeBy={handleResizeBy(tile)}
+              />
+            </motion.div>
+          ))}
+        </div>
+
+        <DragPreviewOverlay>
+          {activeTile && (
+            <div
+              className={`flex flex-col rounded-lg text-white ${getWidget(activeTile.id).color}`}
+              style={{ width: "100%", height: "100%" }}
+            >
+              <div className="px-3 py-1.5 text-sm font-semibold border-b border-white/20">
+                {getWidget(activeTile.id).title}
+              </div>
+              <WidgetBody widget={getWidget(activeTile.id)} tile={activeTile} />
+            </div>
+          )}
+        </DragPreviewOverlay>
+
+        <p className="mt-6 text-gray-600 text-sm">
+          위젯 제목을 끌어 옮기고, 오른쪽 아래 모서리를 끌어 크기를 바꿔보세요. 다른 위젯은 빈자리로 비켜납니다.
+        </p>
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={handleToggleJson}
+            className="px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+          >
+            {jsonOpen ? "JSON 닫기" : "배치 JSON 보기"}
+          </button>
+          <button
+            onClick={() => {
+              reset();
+              setJsonDraft(JSON.stringify(INITIAL_LAYOUT, null, 2));
+            }}
+            className="px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+          >
+            기본 배치로 되돌리기
+          </button>
+        </div>
+
+        {jsonOpen && (
+          <div className="mt-3 w-full max-w-md flex flex-col gap-2">
+            <textarea
+              value={jsonDraft}
+              onChange={(e) => setJsonDraft(e.target.value)}
+              aria-label="대시보드 배치 JSON"
+              spellCheck={false}
+              rows={12}
+              className="w-full rounded-md border border-gray-300 bg-white p-2 font-mono text-xs text-gray-700"
+            />
+            {jsonError && <span className="text-xs text-red-500">{jsonError}</span>}
+            <div className="flex gap-2">
+              <button
+                onClick={handleApplyJson}
+                className="px-3 py-1 text-sm rounded-md bg-gray-700 text-white hover:bg-gray-800 transition-colors"
+              >
+                적용
+              </button>
+              <button
+                onClick={handleCopyJson}
+                className="px-3 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+              >
+                복사
+              </button>
+              {copyStatus && (
+                <span className="self-center text-xs text-gray-500" role="status">
+                  {copyStatus}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </DndContext>
+  );
+}
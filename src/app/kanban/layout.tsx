@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "칸반 보드",
+  description: "박스를 열 사이로 옮기고 열 순서를 드래그로 바꾸는 칸반 보드",
+};
+
+export default function KanbanLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
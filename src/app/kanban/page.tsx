@@ -0,0 +1,481 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverEvent,
+  DragStartEvent,
+  UniqueIdentifier,
+  CollisionDetection,
+  closestCenter,
+  pointerWithin,
+  rectIntersection,
+  getFirstCollision,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  useSortable,
+  arrayMove,
+  horizontalListSortingStrategy,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { DragPreviewOverlay } from "@/components/DragPreviewOverlay";
+import { createKoreanAnnouncements, createKoreanInstructions } from "@/lib/dndAnnouncements";
+import { createVersionedStore } from "@/lib/versionedStorage";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useBoardSensors } from "@/hooks/useBoardSensors";
+import { DropRule, DropSubject, checkDropRule } from "@/lib/dropRules";
+
+// 칸반 박스 (order는 같은 열 안에서의 순서)
+interface KanbanBox {
+  id: string;
+  color: string;
+  content: string;
+  columnId: string;
+  order: number;
+}
+
+// 칸반 열 (order는 열의 좌우 순서, limit은 담을 수 있는 최대 박스 수)
+interface KanbanColumn {
+  id: string;
+  title: string;
+  order: number;
+  limit?: number;
+}
+
+interface KanbanBoard {
+  columns: KanbanColumn[];
+  boxesById: Record<string, KanbanBox>;
+}
+
+// 드래그 대상 종류 (useSortable data로 구분)
+type DragType = "box" | "column";
+
+const INITIAL_BOARD: KanbanBoard = {
+  columns: [
+    { id: "todo", title: "할 일", order: 0 },
+    { id: "doing", title: "진행 중", order: 1, limit: 3 },
+    { id: "done", title: "완료", order: 2 },
+  ],
+  boxesById: {
+    "box-1": { id: "box-1", color: "bg-blue-500", content: "Box 1", columnId: "todo", order: 0 },
+    "box-2": { id: "box-2", color: "bg-green-500", content: "Box 2", columnId: "todo", order: 1 },
+    "box-3": { id: "box-3", color: "bg-purple-500", content: "Box 3", columnId: "todo", order: 2 },
+    "box-4": { id: "box-4", color: "bg-red-500", content: "Box 4", columnId: "todo", order: 3 },
+    "box-5": { id: "box-5", color: "bg-yellow-500", content: "Box 5", columnId: "doing", order: 0 },
+    "box-6": { id: "box-6", color: "bg-pink-500", content: "Box 6", columnId: "doing", order: 1 },
+  },
+};
+
+const isKanbanBoard = (data: unknown): data is KanbanBoard => {
+  const board = data as Partial<KanbanBoard> | null;
+  if (!Array.isArray(board?.columns) || typeof board.boxesById !== "object" || board.boxesById === null) {
+    return false;
+  }
+  const columnIds = board.columns.map((column) => column?.id);
+  return (
+    board.columns.every(
+      (column) =>
+        typeof column?.title === "string" &&
+        typeof column.order === "number" &&
+        (column.limit === undefined || typeof column.limit === "number")
+    ) &&
+    Object.values(board.boxesById).every(
+      (box) =>
+        typeof box?.content === "string" &&
+        typeof box.color === "string" &&
+        typeof box.order === "number" &&
+        columnIds.includes(box.columnId)
+    )
+  );
+};
+
+// 새로고침해도 보드가 유지되도록 저장
+// 버전 2: 열에 limit이 생겨 "진행 중" 열에 기본 제한을 채움
+const boardStore = createVersionedStore<KanbanBoard>({
+  key: "kanban:board",
+  version: 2,
+  migrations: {
+    1: (data) => {
+      const board = data as KanbanBoard;
+      return {
+        ...board,
+        columns: board.columns.map((column) => (column.id === "doing" ? { ...column, limit: 3 } : column)),
+      };
+    },
+  },
+  validate: isKanbanBoard,
+});
+
+// 박스가 드롭 규칙에 내놓는 정보
+const BOX_DROP_SUBJECT: DropSubject = { type: "box" };
+
+/**
+ * 열의 드롭 규칙: 박스만 받고, limit이 있으면 그 수까지만 받음
+ */
+const getColumnDropRule = (column: KanbanColumn): DropRule => ({
+  accepts: ["box"],
+  capacity: column.limit,
+});
+
+// 열 안의 박스 ID를 순서대로
+const getColumnBoxIds = (board: KanbanBoard, columnId: string): string[] =>
+  Object.values(board.boxesById)
+    .filter((box) => box.columnId === columnId)
+    .sort((a, b) => a.order - b.order)
+    .map((box) => box.id);
+
+const getSortedColumns = (board: KanbanBoard): KanbanColumn[] =>
+  [...board.columns].sort((a, b) => a.order - b.order);
+
+/**
+ * 박스를 targetColumnId 열의 index 자리로 옮기고 두 열의 order를 다시 매김
+ */
+const moveBox = (board: KanbanBoard, boxId: string, targetColumnId: string, index: number): KanbanBoard => {
+  const sourceColumnId = board.boxesById[boxId].columnId;
+  const sourceIds = getColumnBoxIds(board, sourceColumnId).filter((id) => id !== boxId);
+  const targetIds =
+    sourceColumnId === targetColumnId ? sourceIds : getColumnBoxIds(board, targetColumnId);
+  targetIds.splice(Math.min(index, targetIds.length), 0, boxId);
+
+  const boxesById = { ...board.boxesById };
+  const renumber = (ids: string[], columnId: string) =>
+    ids.forEach((id, order) => {
+      boxesById[id] = { ...boxesById[id], columnId, order };
+    });
+  if (sourceColumnId !== targetColumnId) {
+    renumber(sourceIds, sourceColumnId);
+  }
+  renumber(targetIds, targetColumnId);
+
+  return { ...board, boxesById };
+};
+
+// 드래그 중 원래 자리에 남는 고스트 모양
+const ghostClass = "opacity-30 outline-dashed outline-2 outline-gray-400";
+
+/**
+ * 박스 카드 모양 (열 안과 드래그 미리보기에서 같이 사용)
+ */
+const BoxCard = ({ box }: { box: KanbanBox }) => (
+  <div className={`w-full h-14 px-3 rounded-lg shadow-md text-white flex items-center justify-between ${box.color}`}>
+    <span className="font-bold">{box.content}</span>
+    <span className="text-xs opacity-80">순서: {box.order + 1}</span>
+  </div>
+);
+
+/**
+ * 열 안에서 정렬·이동 가능한 박스
+ */
+const SortableBox = ({ box }: { box: KanbanBox }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: box.id,
+    data: { type: "box" satisfies DragType, dropSubject: BOX_DROP_SUBJECT },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      {...listeners}
+      {...attributes}
+      aria-label={`${box.content}, ${box.order + 1}번째`}
+      className={`touch-manipulation select-none rounded-lg cursor-grab focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300
+        ${isDragging ? ghostClass : ""}`}
+    >
+      <BoxCard box={box} />
+    </div>
+  );
+};
+
+/**
+ * 칸반 열: 머리글을 끌어 열 순서를 바꾸고, 본문은 박스 드롭 대상 (비어 있어도 놓을 수 있음)
+ */
+const ColumnView = ({
+  column,
+  boxes,
+  isOverColumn,
+  isRejected,
+}: {
+  column: KanbanColumn;
+  boxes: KanbanBox[];
+  isOverColumn: boolean;
+  // 끌고 있는 박스를 규칙상 받을 수 없는 열 위에 올렸는지
+  isRejected: boolean;
+}) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: column.id,
+    data: { type: "column" satisfies DragType },
+  });
+
+  return (
+    <section
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      aria-label={`${column.title} 열, 박스 ${boxes.length}개`}
+      className={`w-64 shrink-0 flex flex-col rounded-xl bg-white shadow-sm transition-colors
+        ${isRejected ? "ring-2 ring-red-400 bg-red-50" : isOverColumn ? "ring-2 ring-blue-300" : ""} ${isDragging ? ghostClass : ""}`}
+    >
+      <header
+        ref={setActivatorNodeRef}
+        {...listeners}
+        {...attributes}
+        aria-label={`${column.title} 열 옮기기`}
+        className="flex items-center justify-between px-4 py-3 border-b border-gray-100 cursor-grab touch-manipulation select-none rounded-t-xl focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300"
+      >
+        <h2 className="font-semibold text-gray-700">{column.title}</h2>
+        <span className="min-w-6 h-6 px-2 rounded-full bg-gray-100 text-gray-600 text-xs font-semibold flex items-center justify-center">
+          {column.limit !== undefined ? `${boxes.length}/${column.limit}` : boxes.length}
+        </span>
+      </header>
+
+      <SortableContext items={boxes.map((box) => box.id)} strategy={verticalListSortingStrategy}>
+        <div className="flex flex-col gap-2 p-3 min-h-40">
+          {boxes.map((box) => (
+            <SortableBox key={box.id} box={box} />
+          ))}
+          {boxes.length === 0 && (
+            <div className="flex-1 min-h-32 flex items-center justify-center rounded-lg border-2 border-dashed border-gray-200 text-xs text-gray-400">
+              여기에 놓기
+            </div>
+          )}
+        </div>
+      </SortableContext>
+    </section>
+  );
+};
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const { value: board, setValue: setBoard, reset, loaded } = usePersistentState(boardStore, INITIAL_BOARD);
+  const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
+  const [activeType, setActiveType] = useState<DragType | null>(null);
+  const [overColumnId, setOverColumnId] = useState<string | null>(null);
+  // 규칙 때문에 박스를 받지 않는 열 (빨갛게 표시, 놓으면 원래 자리로 돌아감)
+  const [rejectedColumnId, setRejectedColumnId] = useState<string | null>(null);
+
+  // 취소하면 열 사이 이동 미리보기를 되돌리기 위한 드래그 시작 시점 보드
+  const boardAtDragStartRef = useRef<KanbanBoard | null>(null);
+  // 충돌 대상이 잠깐 비는 순간(열 사이 이동 직후)에 마지막 대상을 유지
+  const lastOverIdRef = useRef<UniqueIdentifier | null>(null);
+
+  const sensors = useBoardSensors();
+
+  const columns = getSortedColumns(board);
+  const columnIds = columns.map((column) => column.id);
+
+  // 박스 ID 또는 열 ID가 속한 열
+  const findColumnId = (id: UniqueIdentifier): string | null => {
+    const key = String(id);
+    if (columnIds.includes(key)) return key;
+    return board.boxesById[key]?.columnId ?? null;
+  };
+
+  // 스크린 리더 안내: 박스는 이름으로, 열은 열 제목으로 읽음
+  const accessibility = useMemo(
+    () => ({
+      announcements: createKoreanAnnouncements((id) => {
+        const key = String(id);
+        const column = board.columns.find((candidate) => candidate.id === key);
+        if (column) return `${column.title} 열`;
+        return board.boxesById[key]?.content ?? key;
+      }),
+      screenReaderInstructions: createKoreanInstructions("Space 또는 Enter"),
+    }),
+    [board]
+  );
+
+  // 열을 끌 때는 열끼리만, 박스를 끌 때는 포인터 아래 열을 먼저 찾고 그 열에서 가장 가까운 박스를 고름
+  const collisionDetection: CollisionDetection = (args) => {
+    if (activeType === "column") {
+      return closestCenter({
+        ...args,
+        droppableContainers: args.droppableContainers.filter(
+          (container) => container.data.current?.type === "column"
+        ),
+      });
+    }
+
+    const pointerCollisions = pointerWithin(args);
+    const collisions = pointerCollisions.length > 0 ? pointerCollisions : rectIntersection(args);
+    let overId = getFirstCollision(collisions, "id");
+
+    if (overId !== null) {
+      const key = String(overId);
+      if (columnIds.includes(key)) {
+        const boxIds = getColumnBoxIds(board, key);
+        if (boxIds.length > 0) {
+          overId =
+            closestCenter({
+              ...args,
+              droppableContainers: args.droppableContainers.filter((container) =>
+                boxIds.includes(String(container.id))
+              ),
+            })[0]?.id ?? overId;
+        }
+      }
+      lastOverIdRef.current = overId;
+      return [{ id: overId }];
+    }
+
+    return lastOverIdRef.current !== null ? [{ id: lastOverIdRef.current }] : [];
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    boardAtDragStartRef.current = board;
+    setActiveId(event.active.id);
+    setActiveType((event.active.data.current?.type as DragType | undefined) ?? null);
+  };
+
+  // 다른 열 위로 가면 그 열의 규칙을 확인하고, 받을 수 있으면 바로 그 열로 옮겨 미리 보여줌
+  const handleDragOver = (event: DragOverEvent) => {
+    const { active, over } = event;
+    if (!over || activeType !== "box") {
+      setOverColumnId(null);
+      setRejectedColumnId(null);
+      return;
+    }
+
+    const activeColumnId = findColumnId(active.id);
+    const overColumn = findColumnId(over.id);
+    setOverColumnId(overColumn);
+    setRejectedColumnId(null);
+    if (!activeColumnId || !overColumn || activeColumnId === overColumn) return;
+
+    const overIds = getColumnBoxIds(board, overColumn);
+    const column = board.columns.find((candidate) => candidate.id === overColumn);
+    const subject = active.data.current?.dropSubject as DropSubject | undefined;
+    if (column && !checkDropRule(getColumnDropRule(column), subject, overIds.length).allowed) {
+      setRejectedColumnId(overColumn);
+      return;
+    }
+
+    const overIndex = overIds.indexOf(String(over.id));
+    setBoard(moveBox(board, String(active.id), overColumn, overIndex === -1 ? overIds.length : overIndex));
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    // 놓을 곳이 없거나 규칙에 막힌 열에 놓으면, 지나오며 옮겨진 박스를 끌기 전 자리로 되돌림
+    if (!over || rejectedColumnId !== null) {
+      handleDragCancel();
+      return;
+    }
+    resetDragState();
+
+    if (activeType === "column") {
+      const fromIndex = columnIds.indexOf(String(active.id));
+      const toIndex = columnIds.indexOf(String(over.id));
+      if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+      const reordered = arrayMove(columns, fromIndex, toIndex);
+      setBoard({ ...board, columns: reordered.map((column, order) => ({ ...column, order })) });
+      return;
+    }
+
+    // 같은 열 안에서의 순서 변경 (열 사이 이동은 onDragOver에서 이미 반영됨)
+    const columnId = findColumnId(over.id);
+    if (!columnId || board.boxesById[String(active.id)]?.columnId !== columnId) return;
+    const boxIds = getColumnBoxIds(board, columnId);
+    const overIndex = boxIds.indexOf(String(over.id));
+    const toIndex = overIndex === -1 ? boxIds.length - 1 : overIndex;
+    if (boxIds.indexOf(String(active.id)) !== toIndex) {
+      setBoard(moveBox(board, String(active.id), columnId, toIndex));
+    }
+  };
+
+  const handleDragCancel = () => {
+    if (boardAtDragStartRef.current) {
+      setBoard(boardAtDragStartRef.current);
+    }
+    resetDragState();
+  };
+
+  const resetDragState = () => {
+    setActiveId(null);
+    setActiveType(null);
+    setOverColumnId(null);
+    setRejectedColumnId(null);
+    boardAtDragStartRef.current = null;
+    lastOverIdRef.current = null;
+  };
+
+  const activeBox = activeType === "box" && activeId !== null ? board.boxesById[String(activeId)] : undefined;
+  const activeColumn =
+    activeType === "column" ? columns.find((column) => column.id === activeId) : undefined;
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기 (저장된 보드를 불러온 뒤 그림)
+  if (!mounted || !loaded) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      accessibility={accessibility}
+      collisionDetection={collisionDetection}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <div className="flex flex-col items-center min-h-screen bg-gray-50 px-4 py-10">
+        <h1 className="text-2xl font-bold mb-8 text-gray-700">칸반 보드</h1>
+
+        <SortableContext items={columnIds} strategy={horizontalListSortingStrategy}>
+          <div className="flex gap-4 max-w-full overflow-x-auto pb-4">
+            {columns.map((column) => (
+              <ColumnView
+                key={column.id}
+                column={column}
+                boxes={getColumnBoxIds(board, column.id).map((id) => board.boxesById[id])}
+                isOverColumn={overColumnId === column.id}
+                isRejected={rejectedColumnId === column.id}
+              />
+            ))}
+          </div>
+        </SortableContext>
+
+        <DragPreviewOverlay>
+          {activeBox ? (
+            <div className="w-64 px-3">
+              <BoxCard box={activeBox} />
+            </div>
+          ) : activeColumn ? (
+            <div className="w-64 px-4 py-3 rounded-xl bg-white font-semibold text-gray-700">
+              {activeColumn.title}
+              <span className="ml-2 text-xs text-gray-500">{getColumnBoxIds(board, activeColumn.id).length}개</span>
+            </div>
+          ) : null}
+        </DragPreviewOverlay>
+
+        <p className="mt-6 text-gray-600 text-sm">박스를 끌어 열 안이나 다른 열로 옮기고, 열 제목을 끌어 열 순서를 바꿔보세요.</p>
+        <p className="mt-1 text-gray-500 text-xs">제한이 있는 열(예: 진행 중 3개)이 가득 차면 더 놓을 수 없어요.</p>
+        <button
+          onClick={reset}
+          className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+        >
+          기본 보드로 되돌리기
+        </button>
+      </div>
+    </DndContext>
+  );
+}
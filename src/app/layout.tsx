@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { SiteNav } from "@/components/SiteNav";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +14,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: {
+    default: "드래그 앤 드롭 데모",
+    template: "%s · 드래그 앤 드롭 데모",
+  },
+  description: "dnd-kit과 framer-motion으로 만든 드래그 앤 드롭 게임과 그리드 데모 모음",
 };
 
 export default function RootLayout({
@@ -23,10 +27,11 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="ko">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        <SiteNav />
         {children}
       </body>
     </html>
@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "짝 맞추기",
+  description: "카드를 두 장씩 뒤집어 같은 그림을 찾는 기억력 게임",
+};
+
+export default function MemoryLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
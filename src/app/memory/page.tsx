@@ -0,0 +1,316 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { FlipCard, CardFace, getTileSize } from "@/components/FlipCard";
+import { useGridKeyboardNavigation } from "@/hooks/useGridKeyboardNavigation";
+
+// 짝 맞추기 카드 (pairId가 같은 두 장이 한 쌍)
+interface MemoryCard {
+  id: string;
+  pairId: number;
+  symbol: string;
+  isFlipped: boolean;
+  // 맞춘 플레이어 번호 (아직 못 맞췄으면 null)
+  matchedBy: number | null;
+}
+
+// 덱 크기 선택지
+interface DeckOption {
+  pairs: number;
+  cols: number;
+  label: string;
+}
+
+const DECK_OPTIONS: DeckOption[] = [
+  { pairs: 6, cols: 4, label: "12장" },
+  { pairs: 8, cols: 4, label: "16장" },
+  { pairs: 12, cols: 6, label: "24장" },
+];
+
+// 카드 그림 (최대 덱 크기만큼)
+const SYMBOLS = ["🍎", "🍋", "🍇", "🍉", "🍒", "🥝", "🍑", "🍍", "🥕", "🌽", "🍄", "🥥"];
+
+// 틀린 두 장을 다시 덮기까지 보여주는 시간 (ms)
+const MISMATCH_DELAY_MS = 900;
+
+// 플레이어별 색상 (맞춘 카드와 점수판에 사용)
+const PLAYER_COLORS = [
+  { card: "bg-sky-500", badge: "bg-sky-100 text-sky-700", ring: "ring-sky-400" },
+  { card: "bg-rose-500", badge: "bg-rose-100 text-rose-700", ring: "ring-rose-400" },
+];
+
+/**
+ * 섞은 새 덱
+ */
+const createDeck = (pairs: number): MemoryCard[] => {
+  const cards = SYMBOLS.slice(0, pairs).flatMap((symbol, pairId) =>
+    [0, 1].map((copy) => ({
+      id: `card-${pairId}-${copy}`,
+      pairId,
+      symbol,
+      isFlipped: false,
+      matchedBy: null,
+    }))
+  );
+  for (let i = cards.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+  return cards;
+};
+
+/**
+ * 짝 맞추기 카드 한 장 (앞면은 덮인 면, 뒤집으면 그림이 보임)
+ */
+const MemoryCardView = ({
+  card,
+  gridIndex,
+  disabled,
+  onFlip,
+}: {
+  card: MemoryCard;
+  gridIndex: number;
+  disabled: boolean;
+  onFlip: (id: string) => void;
+}) => (
+  <button
+    onClick={() => onFlip(card.id)}
+    // 포커스는 유지해야 방향키로 지나갈 수 있으므로 disabled 대신 aria-disabled
+    aria-disabled={disabled}
+    aria-label={
+      card.isFlipped
+        ? `${card.symbol}${card.matchedBy !== null ? `, 플레이어 ${card.matchedBy + 1}이(가) 맞춤` : ""}`
+        : `${gridIndex + 1}번째 카드, 덮여 있음`
+    }
+    data-grid-index={gridIndex}
+    className="rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 aria-disabled:cursor-default"
+  >
+    <FlipCard
+      isFlipped={card.isFlipped}
+      front={
+        <CardFace side="front" className="bg-blue-500">
+          <span className="text-2xl opacity-60">?</span>
+        </CardFace>
+      }
+      back={
+        <CardFace
+          side="back"
+          className={card.matchedBy !== null ? PLAYER_COLORS[card.matchedBy].card : "bg-gray-700"}
+        >
+          <span className="text-3xl">{card.symbol}</span>
+        </CardFace>
+      }
+    />
+  </button>
+);
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const [deck, setDeck] = useState<DeckOption>(DECK_OPTIONS[0]);
+  const [playerCount, setPlayerCount] = useState(1);
+  const [cards, setCards] = useState<MemoryCard[]>([]);
+  const [turns, setTurns] = useState(0);
+  const [currentPlayer, setCurrentPlayer] = useState(0);
+  const [scores, setScores] = useState([0, 0]);
+  // 틀린 두 장을 보여주는 동안에는 다른 카드를 뒤집지 않음
+  const [locked, setLocked] = useState(false);
+  const mismatchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleGridKeyDown = useGridKeyboardNavigation(deck.cols);
+
+  const startGame = (nextDeck: DeckOption, nextPlayerCount: number) => {
+    if (mismatchTimerRef.current) {
+      clearTimeout(mismatchTimerRef.current);
+      mismatchTimerRef.current = null;
+    }
+    setDeck(nextDeck);
+    setPlayerCount(nextPlayerCount);
+    setCards(createDeck(nextDeck.pairs));
+    setTurns(0);
+    setCurrentPlayer(0);
+    setScores([0, 0]);
+    setLocked(false);
+  };
+
+  // 처음 열 때 섞은 덱으로 시작 (섞기는 클라이언트에서만)
+  useEffect(() => {
+    setCards(createDeck(DECK_OPTIONS[0].pairs));
+    return () => {
+      if (mismatchTimerRef.current) clearTimeout(mismatchTimerRef.current);
+    };
+  }, []);
+
+  const handleFlip = (id: string) => {
+    const card = cards.find((candidate) => candidate.id === id);
+    if (locked || !card || card.isFlipped) return;
+
+    const open = cards.filter((candidate) => candidate.isFlipped && candidate.matchedBy === null);
+    const flipped = cards.map((candidate) => (candidate.id === id ? { ...candidate, isFlipped: true } : candidate));
+
+    // 첫 장이면 뒤집기만
+    if (open.length === 0) {
+      setCards(flipped);
+      return;
+    }
+
+    // 두 번째 장: 한 턴이 끝남
+    const first = open[0];
+    setTurns((count) => count + 1);
+
+    if (first.pairId === card.pairId) {
+      // 맞추면 그대로 두고 같은 플레이어가 계속
+      setCards(
+        flipped.map((candidate) =>
+          candidate.pairId === card.pairId ? { ...candidate, matchedBy: currentPlayer } : candidate
+        )
+      );
+      setScores((prev) => prev.map((score, player) => (player === currentPlayer ? score + 1 : score)));
+      return;
+    }
+
+    // 틀리면 잠시 보여준 뒤 다시 덮고 차례를 넘김
+    setCards(flipped);
+    setLocked(true);
+    mismatchTimerRef.current = setTimeout(() => {
+      mismatchTimerRef.current = null;
+      setCards((prev) =>
+        prev.map((candidate) =>
+          candidate.id === first.id || candidate.id === card.id ? { ...candidate, isFlipped: false } : candidate
+        )
+      );
+      setCurrentPlayer((player) => (player + 1) % playerCount);
+      setLocked(false);
+    }, MISMATCH_DELAY_MS);
+  };
+
+  const finished = cards.length > 0 && cards.every((card) => card.matchedBy !== null);
+  const winner =
+    playerCount === 2 && finished
+      ? scores[0] === scores[1]
+        ? null
+        : scores[0] > scores[1]
+          ? 0
+          : 1
+      : null;
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기
+  if (!mounted) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 px-4 py-10">
+      <h1 className="text-2xl font-bold mb-6 text-gray-700">짝 맞추기</h1>
+
+      <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+        <div role="radiogroup" aria-label="덱 크기" className="flex rounded-md bg-gray-200 p-0.5">
+          {DECK_OPTIONS.map((option) => (
+            <button
+              key={option.pairs}
+              role="radio"
+              aria-checked={deck.pairs === option.pairs}
+              onClick={() => startGame(option, playerCount)}
+              className={`px-3 py-1 rounded transition-colors ${
+                deck.pairs === option.pairs ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div role="radiogroup" aria-label="플레이어 수" className="flex rounded-md bg-gray-200 p-0.5">
+          {[1, 2].map((count) => (
+            <button
+              key={count}
+              role="radio"
+              aria-checked={playerCount === count}
+              onClick={() => startGame(deck, count)}
+              className={`px-3 py-1 rounded transition-colors ${
+                playerCount === count ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+              }`}
+            >
+              {count === 1 ? "혼자" : "둘이서"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-4 flex items-center gap-3 text-sm" aria-live="polite">
+        <span className="text-gray-600">
+          턴: <span className="font-semibold text-gray-800">{turns}</span>
+        </span>
+        {Array.from({ length: playerCount }, (_, player) => (
+          <span
+            key={player}
+            className={`px-2 py-0.5 rounded-md ${PLAYER_COLORS[player].badge}
+              ${playerCount === 2 && currentPlayer === player && !finished ? `ring-2 ${PLAYER_COLORS[player].ring}` : ""}`}
+          >
+            {playerCount === 2 ? `플레이어 ${player + 1}` : "맞춘 짝"}: {scores[player]}
+          </span>
+        ))}
+      </div>
+
+      <div
+        className="grid gap-2 sm:gap-3 p-4 rounded-xl bg-white shadow-sm"
+        style={
+          {
+            gridTemplateColumns: `repeat(${deck.cols}, minmax(0, 1fr))`,
+            "--tile-size": getTileSize(deck.cols),
+          } as React.CSSProperties
+        }
+        onKeyDown={handleGridKeyDown}
+      >
+        {cards.map((card, index) => (
+          <MemoryCardView
+            key={card.id}
+            card={card}
+            gridIndex={index}
+            disabled={locked || card.isFlipped}
+            onFlip={handleFlip}
+          />
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {finished && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8, y: 10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.8 }}
+            transition={{ type: "spring", stiffness: 400, damping: 20 }}
+            className="mt-4 px-4 py-2 rounded-lg bg-emerald-100 text-emerald-700 font-semibold"
+            role="status"
+          >
+            {playerCount === 1
+              ? `🎉 ${turns}턴 만에 모두 맞췄어요!`
+              : winner === null
+                ? `🤝 ${scores[0]} 대 ${scores[1]} 무승부!`
+                : `🎉 플레이어 ${winner + 1} 승리! (${scores[0]} 대 ${scores[1]})`}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <p className="mt-6 text-gray-600 text-sm">
+        {playerCount === 2
+          ? "번갈아 두 장씩 뒤집어요. 짝을 맞추면 한 번 더!"
+          : "두 장씩 뒤집어 같은 그림을 찾아보세요."}
+      </p>
+      <button
+        onClick={() => startGame(deck, playerCount)}
+        className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+      >
+        새 게임
+      </button>
+    </div>
+  );
+}
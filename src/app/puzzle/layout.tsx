@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "슬라이딩 퍼즐",
+  description: "빈칸 옆의 타일을 밀어 순서대로 맞추는 8-퍼즐과 15-퍼즐",
+};
+
+export default function PuzzleLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
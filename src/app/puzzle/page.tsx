@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  DndContext,
+  useDraggable,
+  useDroppable,
+  DragEndEvent,
+  DragStartEvent,
+  UniqueIdentifier,
+} from "@dnd-kit/core";
+import { motion, AnimatePresence } from "framer-motion";
+import { DragPreviewOverlay } from "@/components/DragPreviewOverlay";
+import { BOX_COLOR_PALETTE } from "@/components/BoxColorPicker";
+import { createKoreanAnnouncements, createKoreanInstructions } from "@/lib/dndAnnouncements";
+import {
+  PuzzleSlots,
+  createSolvedSlots,
+  getMovableSlots,
+  isSolved,
+  shuffleSolvable,
+  slideTile,
+} from "@/lib/slidingPuzzle";
+import { useBoardSensors } from "@/hooks/useBoardSensors";
+
+// 퍼즐 크기 선택지 (3: 8-퍼즐, 4: 15-퍼즐)
+const SIZE_OPTIONS = [3, 4];
+
+// 타일 모양: 색상 박스 / 그림 조각
+type TileStyle = "color" | "picture";
+
+const TILE_STYLE_LABELS: Record<TileStyle, string> = {
+  color: "색상",
+  picture: "그림",
+};
+
+// 빈칸 드롭존 ID
+const EMPTY_SLOT_ID = "empty";
+
+// 타일 드래그 ID 접두사 (tile-0, tile-1 ...)
+const TILE_PREFIX = "tile-";
+
+// 기본 그림 (산과 해가 있는 풍경, 사진을 불러오지 않았을 때 사용)
+const DEFAULT_PICTURE =
+  "data:image/svg+xml;utf8," +
+  encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 300 300">
+  <defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#60a5fa"/><stop offset="1" stop-color="#fde68a"/></linearGradient></defs>
+  <rect width="300" height="300" fill="url(#sky)"/>
+  <circle cx="215" cy="90" r="38" fill="#f97316"/>
+  <path d="M0 210 L80 120 L150 200 L210 140 L300 220 L300 300 L0 300 Z" fill="#4d7c0f"/>
+  <path d="M0 250 Q75 215 150 250 T300 245 L300 300 L0 300 Z" fill="#166534"/>
+  <rect x="40" y="225" width="14" height="30" fill="#78350f"/>
+  <circle cx="47" cy="215" r="20" fill="#15803d"/>
+</svg>`);
+
+const tileSizeClass = "w-20 h-20 sm:w-24 sm:h-24";
+
+const getTileLabel = (tile: number) => `타일 ${tile + 1}`;
+
+/**
+ * 타일 모양 (판 위와 드래그 미리보기에서 같이 사용)
+ * 그림 모드에서는 맞춘 위치에 해당하는 그림 조각을 배경 위치로 잘라 보여준다.
+ */
+const TileFace = ({
+  tile,
+  size,
+  tileStyle,
+  picture,
+}: {
+  tile: number;
+  size: number;
+  tileStyle: TileStyle;
+  picture: string;
+}) => {
+  const row = Math.floor(tile / size);
+  const col = tile % size;
+
+  if (tileStyle === "picture") {
+    return (
+      <div
+        className="relative w-full h-full rounded-lg shadow-md bg-gray-200"
+        style={{
+          backgroundImage: `url("${picture}")`,
+          backgroundSize: `${size * 100}% ${size * 100}%`,
+          backgroundPosition: `${(col / (size - 1)) * 100}% ${(row / (size - 1)) * 100}%`,
+        }}
+      >
+        <span className="absolute top-1 left-1 min-w-5 h-5 px-1 rounded bg-black/40 text-white text-xs font-bold flex items-center justify-center">
+          {tile + 1}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`w-full h-full text-white flex items-center justify-center rounded-lg shadow-md
+        ${BOX_COLOR_PALETTE[tile % BOX_COLOR_PALETTE.length]}`}
+    >
+      <span className="text-2xl font-bold">{tile + 1}</span>
+    </div>
+  );
+};
+
+/**
+ * 퍼즐 타일 (빈칸 옆에 있을 때만 끌거나 눌러서 옮길 수 있음)
+ */
+const PuzzleTile = ({
+  tile,
+  slot,
+  movable,
+  onSlide,
+  children,
+}: {
+  tile: number;
+  slot: number;
+  movable: boolean;
+  onSlide: () => void;
+  children: React.ReactNode;
+}) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `${TILE_PREFIX}${tile}`,
+    data: { slot },
+    disabled: !movable,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      onClick={movable ? onSlide : undefined}
+      aria-label={`${getTileLabel(tile)}, ${slot + 1}번째 칸${movable ? ", 옮길 수 있음" : ""}`}
+      className={`${tileSizeClass} touch-manipulation select-none rounded-lg focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300
+        ${movable ? "cursor-grab" : "cursor-default"}
+        ${isDragging ? "opacity-30 outline-dashed outline-2 outline-gray-400" : ""}`}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * 빈칸 (옮길 수 있는 타일을 놓는 유일한 드롭 대상)
+ */
+const EmptySlot = () => {
+  const { setNodeRef, isOver } = useDroppable({ id: EMPTY_SLOT_ID });
+
+  return (
+    <div
+      ref={setNodeRef}
+      aria-label="빈칸"
+      className={`${tileSizeClass} rounded-lg border-2 border-dashed transition-colors
+        ${isOver ? "border-blue-400 bg-blue-50" : "border-gray-200"}`}
+    />
+  );
+};
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const [size, setSize] = useState(3);
+  const [slots, setSlots] = useState<PuzzleSlots>(() => createSolvedSlots(3));
+  const [moves, setMoves] = useState(0);
+  const [tileStyle, setTileStyle] = useState<TileStyle>("color");
+  // 불러온 사진 (object URL), 없으면 기본 그림
+  const [customPicture, setCustomPicture] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
+
+  const solved = moves > 0 && isSolved(slots);
+  const movableSlots = solved ? [] : getMovableSlots(slots, size);
+  const picture = customPicture ?? DEFAULT_PICTURE;
+
+  const sensors = useBoardSensors();
+
+  // 스크린 리더 안내: 타일은 번호로, 드롭 대상은 빈칸으로 읽음
+  const accessibility = useMemo(
+    () => ({
+      announcements: createKoreanAnnouncements((id) => {
+        const key = String(id);
+        if (key === EMPTY_SLOT_ID) return "빈칸";
+        return getTileLabel(Number(key.replace(TILE_PREFIX, "")));
+      }),
+      screenReaderInstructions: createKoreanInstructions("Space 또는 Enter"),
+    }),
+    []
+  );
+
+  // 처음 열 때와 크기를 바꿀 때 새로 섞음
+  const startGame = (nextSize: number) => {
+    setSize(nextSize);
+    setSlots(shuffleSolvable(nextSize));
+    setMoves(0);
+  };
+
+  useEffect(() => {
+    setSlots(shuffleSolvable(3));
+  }, []);
+
+  // 바꾼 사진의 object URL은 다음 사진으로 바뀌거나 페이지를 떠날 때 해제
+  useEffect(() => {
+    if (!customPicture) return;
+    return () => URL.revokeObjectURL(customPicture);
+  }, [customPicture]);
+
+  const handlePictureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setCustomPicture(URL.createObjectURL(file));
+    setTileStyle("picture");
+  };
+
+  const slide = (slot: number) => {
+    const next = slideTile(slots, slot, size);
+    if (next === slots) return;
+    setSlots(next);
+    setMoves((count) => count + 1);
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(event.active.id);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveId(null);
+    if (over?.id !== EMPTY_SLOT_ID) return;
+    const slot = active.data.current?.slot;
+    if (typeof slot === "number") {
+      slide(slot);
+    }
+  };
+
+  const activeTile = activeId !== null ? Number(String(activeId).replace(TILE_PREFIX, "")) : null;
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기
+  if (!mounted) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      accessibility={accessibility}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => setActiveId(null)}
+    >
+      <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 px-4 py-10">
+        <h1 className="text-2xl font-bold mb-6 text-gray-700">슬라이딩 퍼즐</h1>
+
+        <div className="mb-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+          <div role="radiogroup" aria-label="퍼즐 크기" className="flex rounded-md bg-gray-200 p-0.5">
+            {SIZE_OPTIONS.map((option) => (
+              <button
+                key={option}
+                role="radio"
+                aria-checked={size === option}
+                onClick={() => startGame(option)}
+                className={`px-3 py-1 rounded transition-colors ${
+                  size === option ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                {option}x{option}
+              </button>
+            ))}
+          </div>
+          <div role="radiogroup" aria-label="타일 모양" className="flex rounded-md bg-gray-200 p-0.5">
+            {(Object.keys(TILE_STYLE_LABELS) as TileStyle[]).map((option) => (
+              <button
+                key={option}
+                role="radio"
+                aria-checked={tileStyle === option}
+                onClick={() => setTileStyle(option)}
+                className={`px-3 py-1 rounded transition-colors ${
+                  tileStyle === option ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                {TILE_STYLE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <label className="px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors cursor-pointer">
+            사진 불러오기
+            <input type="file" accept="image/*" className="sr-only" onChange={handlePictureChange} />
+          </label>
+        </div>
+
+        <div
+          className="grid gap-2 p-4 sm:gap-3 sm:p-6 rounded-xl bg-white shadow-sm"
+          style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }}
+        >
+          {slots.map((tile, slot) =>
+            tile === null ? (
+              <motion.div key={EMPTY_SLOT_ID} layout transition={{ type: "spring", stiffness: 500, damping: 35 }}>
+                <EmptySlot />
+              </motion.div>
+            ) : (
+              <motion.div
+                key={`${TILE_PREFIX}${tile}`}
+                layout
+                transition={{ type: "spring", stiffness: 500, damping: 35 }}
+              >
+                <PuzzleTile tile={tile} slot={slot} movable={movableSlots.includes(slot)} onSlide={() => slide(slot)}>
+                  <TileFace tile={tile} size={size} tileStyle={tileStyle} picture={picture} />
+                </PuzzleTile>
+              </motion.div>
+            )
+          )}
+        </div>
+
+        <DragPreviewOverlay>
+          {activeTile !== null && (
+            <div className={tileSizeClass}>
+              <TileFace tile={activeTile} size={size} tileStyle={tileStyle} picture={picture} />
+            </div>
+          )}
+        </DragPreviewOverlay>
+
+        <div className="mt-4 text-gray-600 text-sm" aria-live="polite">
+          이동 횟수: <span className="font-semibold text-gray-800">{moves}</span>
+        </div>
+
+        <AnimatePresence>
+          {solved && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8, y: 10 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+              transition={{ type: "spring", stiffness: 400, damping: 20 }}
+              className="mt-4 px-4 py-2 rounded-lg bg-emerald-100 text-emerald-700 font-semibold"
+              role="status"
+            >
+              🎉 {moves}번 만에 완성했어요!
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <p className="mt-6 text-gray-600 text-sm">빈칸 옆의 타일을 빈칸으로 끌거나 눌러서 번호 순서대로 맞춰보세요.</p>
+        <button
+          onClick={() => startGame(size)}
+          className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+        >
+          다시 섞기
+        </button>
+      </div>
+    </DndContext>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { SwapGrid } from "@/components/SwapGrid";
+import { createVersionedStore } from "@/lib/versionedStorage";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useServerBoard } from "@/hooks/useServerBoard";
+import { BoardSyncIndicator } from "@/components/BoardSyncIndicator";
+import { BoxColorPicker, BOX_COLOR_PALETTE, isBoxColor } from "@/components/BoxColorPicker";
+import type { DropRule } from "@/lib/dropRules";
+
+// 박스 데이터 타입 정의
+interface BoxItem {
+  id: string;
+  color: string;
+  content: string;
+  order: number;
+}
+
+// 초기 박스 배치
+const INITIAL_BOXES: BoxItem[] = [
+  { id: "box-1", color: "bg-blue-500", content: "Box 1", order: 0 },
+  { id: "box-2", color: "bg-green-500", content: "Box 2", order: 1 },
+  { id: "box-3", color: "bg-purple-500", content: "Box 3", order: 2 },
+];
+
+const getBoxLabel = (box: BoxItem) => box.content;
+
+// 박스 개수와 이름 길이 제한 (서버 보드 저장소 제한 안쪽)
+const MAX_BOXES = 12;
+const MAX_NAME_LENGTH = 20;
+
+// 저장된 박스 목록이 올바른지 (박스를 더하고 지울 수 있으므로 개수와 ID는 자유)
+const isBoxList = (data: unknown): data is BoxItem[] =>
+  Array.isArray(data) &&
+  data.length <= MAX_BOXES &&
+  new Set(data.map((saved) => saved?.id)).size === data.length &&
+  data.every(
+    (saved) =>
+      typeof saved?.id === "string" &&
+      typeof saved.order === "number" &&
+      typeof saved.content === "string" &&
+      isBoxColor(saved.color)
+  );
+
+/**
+ * 화면 순서대로 order를 0부터 다시 매김 (추가·삭제 뒤 빈 번호가 생기지 않게)
+ */
+const renumberBoxes = (boxes: BoxItem[]): BoxItem[] =>
+  [...boxes]
+    .sort((a, b) => a.order - b.order)
+    .map((box, order) => ({ ...box, order }));
+
+/**
+ * 새 박스 (이름 번호와 색상은 기존 박스 다음 것으로)
+ */
+const createBox = (boxes: BoxItem[]): BoxItem => {
+  const lastNumber = Math.max(0, ...boxes.map((box) => Number(box.content.match(/^Box (\d+)$/)?.[1] ?? 0)));
+  return {
+    id: `box-${Date.now().toString(36)}`,
+    color: BOX_COLOR_PALETTE[boxes.length % BOX_COLOR_PALETTE.length],
+    content: `Box ${lastNumber + 1}`,
+    order: boxes.length,
+  };
+};
+
+// 여러 기기에서 같은 배치를 쓰도록 서버에 저장하는 보드 ID
+const BOARD_ID = "page3";
+
+// 새로고침해도 배치가 유지되도록 저장
+const boxStore = createVersionedStore<BoxItem[]>({
+  key: "box-grid:page3",
+  version: 1,
+  validate: isBoxList,
+});
+
+/**
+ * 박스 타일 (더블클릭하면 그 자리에서 이름을 고침)
+ * 입력창의 키·마우스·터치 이벤트가 타일의 드래그 센서(Mouse/Touch/Keyboard)로 올라가지 않도록 막는다.
+ */
+const BoxTile = ({
+  box,
+  order,
+  isDragging,
+  isEditing,
+  onStartEdit,
+  onRename,
+  onEndEdit,
+}: {
+  box: BoxItem;
+  order: number;
+  isDragging: boolean;
+  isEditing: boolean;
+  onStartEdit: () => void;
+  onRename: (content: string) => void;
+  onEndEdit: () => void;
+}) => {
+  const [draft, setDraft] = useState(box.content);
+
+  const commit = () => {
+    const content = draft.trim();
+    if (content && content !== box.content) {
+      onRename(content);
+    }
+    onEndEdit();
+  };
+
+  return (
+    <div
+      onDoubleClick={() => {
+        setDraft(box.content);
+        onStartEdit();
+      }}
+      className={`w-full h-full text-white flex items-center justify-center rounded-lg shadow-md
+        ${box.color} ${isDragging ? "ring-2 ring-white ring-opacity-60 opacity-90" : ""}`}
+    >
+      <div className="text-center px-2">
+        {isEditing ? (
+          <input
+            autoFocus
+            value={draft}
+            maxLength={MAX_NAME_LENGTH}
+            aria-label="박스 이름"
+            onChange={(e) => setDraft(e.target.value)}
+            onFocus={(e) => e.target.select()}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") commit();
+              if (e.key === "Escape") onEndEdit();
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            className="w-full rounded bg-white/90 px-1 py-0.5 text-center text-sm font-bold text-gray-800 focus:outline-none"
+          />
+        ) : (
+          <div className="font-bold break-all">{box.content}</div>
+        )}
+        <div className="text-xs mt-1 opacity-80">순서: {order + 1}</div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const { value: boxes, setValue: setBoxes, reset, loaded } = usePersistentState(boxStore, INITIAL_BOXES);
+  // 로컬 저장본을 먼저 불러온 뒤 서버 배치로 맞추고, 변경은 서버에도 저장
+  const { status, error, save } = useServerBoard({
+    boardId: BOARD_ID,
+    items: boxes,
+    setItems: setBoxes,
+    validate: isBoxList,
+    enabled: loaded,
+  });
+  // 초기화하면 그리드를 새로 마운트해 실행 취소 기록과 녹화도 비움
+  const [resetCount, setResetCount] = useState(0);
+  // 이름·색상을 고치고 있는 박스
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editingBox = boxes.find((box) => box.id === editingId);
+
+  const handleReset = () => {
+    reset();
+    save(INITIAL_BOXES);
+    setEditingId(null);
+    setResetCount((count) => count + 1);
+  };
+
+  const handleAddBox = () => {
+    if (boxes.length >= MAX_BOXES) return;
+    save(renumberBoxes([...boxes, createBox(boxes)]));
+  };
+
+  // 박스가 하나만 남으면 휴지통이 더 받지 않음
+  const trashRule: DropRule = {
+    predicate: { test: () => boxes.length > 1, reason: "박스는 하나 이상 남아 있어야 합니다" },
+  };
+
+  const handleRemoveBoxes = (ids: string[]) => {
+    // 선택 묶음으로 전부 지우려는 경우도 막음
+    if (ids.length >= boxes.length) return;
+    if (editingId && ids.includes(editingId)) {
+      setEditingId(null);
+    }
+    save(renumberBoxes(boxes.filter((box) => !ids.includes(box.id))));
+  };
+
+  const updateBox = (id: string, changes: Partial<Pick<BoxItem, "content" | "color">>) => {
+    save(boxes.map((box) => (box.id === id ? { ...box, ...changes } : box)));
+  };
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기 (저장된 배치를 불러온 뒤 그림)
+  if (!mounted || !loaded || status === "loading") {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50">
+      <h1 className="text-2xl font-bold mb-8 text-gray-700">드래그 앤 드롭 데모</h1>
+
+      {/* 한 줄에 세 개를 크게 배치 */}
+      <SwapGrid
+        key={resetCount}
+        items={boxes}
+        columns={3}
+        renderTile={(box, { isDragging, order }) => (
+          <BoxTile
+            box={box}
+            order={order}
+            isDragging={isDragging}
+            isEditing={editingId === box.id}
+            onStartEdit={() => setEditingId(box.id)}
+            onRename={(content) => updateBox(box.id, { content })}
+            onEndEdit={() => setEditingId(null)}
+          />
+        )}
+        onChange={save}
+        onRemove={handleRemoveBoxes}
+        trashRule={trashRule}
+        getItemLabel={getBoxLabel}
+        tileClassName="w-24 h-24 sm:w-32 sm:h-32"
+        zoneClassName="w-28 h-28 sm:w-36 sm:h-36"
+        gridClassName="gap-2 p-4 sm:gap-8 sm:p-10 rounded-xl bg-white shadow-sm"
+      />
+
+      {editingBox && (
+        <div className="mt-4 flex flex-col items-center gap-2">
+          <span className="text-xs text-gray-500">{editingBox.content} 색상</span>
+          <BoxColorPicker
+            value={editingBox.color}
+            onChange={(color) => updateBox(editingBox.id, { color })}
+            label={`${editingBox.content} 색상`}
+          />
+        </div>
+      )}
+
+      <button
+        onClick={handleAddBox}
+        disabled={boxes.length >= MAX_BOXES}
+        className="mt-4 px-3 py-1 text-sm rounded-md bg-gray-700 text-white hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        + 박스 추가
+      </button>
+
+      <p className="mt-6 text-gray-600 text-sm">박스를 드래그하여 순서를 변경하고, 더블클릭해 이름과 색상을 바꿔보세요.</p>
+      <button
+        onClick={handleReset}
+        className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+      >
+        기본 배치로 되돌리기
+      </button>
+      <BoardSyncIndicator status={status} error={error} />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { SwapGrid, SwapGridTileState } from "@/components/SwapGrid";
+import { createVersionedStore } from "@/lib/versionedStorage";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useServerBoard } from "@/hooks/useServerBoard";
+import { BoardSyncIndicator } from "@/components/BoardSyncIndicator";
+
+// 박스 데이터 타입 정의
+interface BoxItem {
+  id: string;
+  content: string;
+  order: number;
+}
+
+// 초기 박스 배치
+const INITIAL_BOXES: BoxItem[] = Array.from({ length: 9 }, (_, index) => ({
+  id: `box-${index + 1}`,
+  content: `Box ${index + 1}`,
+  order: index,
+}));
+
+const getBoxLabel = (box: BoxItem) => box.content;
+
+// 저장된 배치가 이 페이지의 박스 목록과 맞는지
+const isBoxList = (data: unknown): data is BoxItem[] =>
+  Array.isArray(data) &&
+  data.length === INITIAL_BOXES.length &&
+  INITIAL_BOXES.every((box) =>
+    data.some(
+      (saved) =>
+        saved?.id === box.id &&
+        typeof saved.order === "number" &&
+        typeof saved.content === "string"
+    )
+  );
+
+// 여러 기기에서 같은 배치를 쓰도록 서버에 저장하는 보드 ID
+const BOARD_ID = "page9-simple";
+
+// 새로고침해도 배치가 유지되도록 저장
+const boxStore = createVersionedStore<BoxItem[]>({
+  key: "box-grid:page9-simple",
+  version: 1,
+  validate: isBoxList,
+});
+
+/**
+ * 박스 타일 (단색)
+ */
+const BoxTile = (box: BoxItem, { isDragging, order }: SwapGridTileState) => (
+  <div
+    className={`w-full h-full text-white flex items-center justify-center rounded-lg shadow-md
+      bg-blue-500 ${isDragging ? "ring-2 ring-white ring-opacity-60 opacity-90" : ""}`}
+  >
+    <div className="text-center">
+      <div className="font-bold">{box.content}</div>
+      <div className="text-xs mt-1 opacity-80">순서: {order + 1}</div>
+    </div>
+  </div>
+);
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const { value: boxes, setValue: setBoxes, reset, loaded } = usePersistentState(boxStore, INITIAL_BOXES);
+  // 로컬 저장본을 먼저 불러온 뒤 서버 배치로 맞추고, 변경은 서버에도 저장
+  const { status, error, save } = useServerBoard({
+    boardId: BOARD_ID,
+    items: boxes,
+    setItems: setBoxes,
+    validate: isBoxList,
+    enabled: loaded,
+  });
+  // 초기화하면 그리드를 새로 마운트해 실행 취소 기록과 녹화도 비움
+  const [resetCount, setResetCount] = useState(0);
+
+  const handleReset = () => {
+    reset();
+    save(INITIAL_BOXES);
+    setResetCount((count) => count + 1);
+  };
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기 (저장된 배치를 불러온 뒤 그림)
+  if (!mounted || !loaded || status === "loading") {
+    return <div className="min-h-screen" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen">
+      <h1 className="text-2xl font-bold mb-8 text-gray-700">3x3 드래그 앤 드롭 그리드</h1>
+
+      {/* 단순 버전: 배경 패널과 실행 취소·리플레이 컨트롤 없이 */}
+      <SwapGrid
+        key={resetCount}
+        items={boxes}
+        columns={3}
+        renderTile={BoxTile}
+        onChange={save}
+        getItemLabel={getBoxLabel}
+        gridClassName="gap-2 p-4 sm:gap-4 sm:p-8"
+        controls={false}
+      />
+
+      <p className="mt-6 text-gray-600 text-sm">박스를 드래그하여 순서를 변경해보세요.</p>
+      <button
+        onClick={handleReset}
+        className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+      >
+        기본 배치로 되돌리기
+      </button>
+      <BoardSyncIndicator status={status} error={error} />
+    </div>
+  );
+}
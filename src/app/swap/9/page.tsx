@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { SwapGrid, SwapGridTileState } from "@/components/SwapGrid";
+import { createVersionedStore } from "@/lib/versionedStorage";
+import { usePersistentState } from "@/hooks/usePersistentState";
+import { useServerBoard } from "@/hooks/useServerBoard";
+import { BoardSyncIndicator } from "@/components/BoardSyncIndicator";
+import { useCollaborativeBoard } from "@/hooks/useCollaborativeBoard";
+import type { CollabTransportKind } from "@/lib/collabTransport";
+import { useIsEmbedded } from "@/hooks/useIsEmbedded";
+
+// 박스 데이터 타입 정의
+interface BoxItem {
+  id: string;
+  color: string;
+  content: string;
+  order: number;
+}
+
+// 초기 박스 배치
+const INITIAL_BOXES: BoxItem[] = [
+  { id: "box-1", color: "bg-blue-500", content: "Box 1", order: 0 },
+  { id: "box-2", color: "bg-green-500", content: "Box 2", order: 1 },
+  { id: "box-3", color: "bg-purple-500", content: "Box 3", order: 2 },
+  { id: "box-4", color: "bg-red-500", content: "Box 4", order: 3 },
+  { id: "box-5", color: "bg-yellow-500", content: "Box 5", order: 4 },
+  { id: "box-6", color: "bg-pink-500", content: "Box 6", order: 5 },
+  { id: "box-7", color: "bg-indigo-500", content: "Box 7", order: 6 },
+  { id: "box-8", color: "bg-teal-500", content: "Box 8", order: 7 },
+  { id: "box-9", color: "bg-orange-500", content: "Box 9", order: 8 },
+];
+
+const getBoxLabel = (box: BoxItem) => box.content;
+
+// 협업 동기화 방식 라벨
+const COLLAB_TRANSPORT_LABELS: Record<CollabTransportKind, string> = {
+  broadcast: "탭 사이",
+  websocket: "로컬 서버",
+};
+
+// 저장된 배치가 이 페이지의 박스 목록과 맞는지
+const isBoxList = (data: unknown): data is BoxItem[] =>
+  Array.isArray(data) &&
+  data.length === INITIAL_BOXES.length &&
+  INITIAL_BOXES.every((box) =>
+    data.some(
+      (saved) =>
+        saved?.id === box.id &&
+        typeof saved.order === "number" &&
+        typeof saved.content === "string" &&
+        typeof saved.color === "string"
+    )
+  );
+
+// 여러 기기에서 같은 배치를 쓰도록 서버에 저장하는 보드 ID
+const BOARD_ID = "page9";
+
+// 새로고침해도 배치가 유지되도록 저장
+const boxStore = createVersionedStore<BoxItem[]>({
+  key: "box-grid:page9",
+  version: 1,
+  validate: isBoxList,
+});
+
+/**
+ * 박스 타일
+ */
+const BoxTile = (box: BoxItem, { isDragging, order }: SwapGridTileState) => (
+  <div
+    className={`w-full h-full text-white flex items-center justify-center rounded-lg shadow-md
+      ${box.color} ${isDragging ? "ring-2 ring-white ring-opacity-60 opacity-90" : ""}`}
+  >
+    <div className="text-center">
+      <div className="font-bold">{box.content}</div>
+      <div className="text-xs mt-1 opacity-80">순서: {order + 1}</div>
+    </div>
+  </div>
+);
+
+/**
+ * 메인 컴포넌트
+ */
+export default function Page() {
+  // 클라이언트 마운트 여부 체크 (hydration 에러 방지)
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  // 모든 훅은 항상 호출합니다.
+  const { value: boxes, setValue: setBoxes, reset, loaded } = usePersistentState(boxStore, INITIAL_BOXES);
+  // 로컬 저장본을 먼저 불러온 뒤 서버 배치로 맞추고, 변경은 서버에도 저장
+  const { status, error, save } = useServerBoard({
+    boardId: BOARD_ID,
+    items: boxes,
+    setItems: setBoxes,
+    validate: isBoxList,
+    enabled: loaded,
+  });
+  // 같은 보드를 연 다른 탭/사용자와 실시간으로 순서를 맞춤 (수렴한 배치는 서버에도 저장)
+  // 갤러리 미리보기 iframe은 접속자로 세지 않도록 참여하지 않음
+  const embedded = useIsEmbedded();
+  const [transportKind, setTransportKind] = useState<CollabTransportKind>("broadcast");
+  const collab = useCollaborativeBoard({
+    roomId: BOARD_ID,
+    items: boxes,
+    onItemsChange: save,
+    transportKind,
+    enabled: loaded && status !== "loading" && !embedded,
+  });
+  // 초기화하면 그리드를 새로 마운트해 실행 취소 기록과 녹화도 비움
+  const [resetCount, setResetCount] = useState(0);
+
+  const handleReset = () => {
+    reset();
+    collab.change(INITIAL_BOXES);
+    setResetCount((count) => count + 1);
+  };
+
+  // 모든 훅 호출 후, mounted 여부에 따라 렌더링 분기 (저장된 배치를 불러온 뒤 그림)
+  if (!mounted || !loaded || status === "loading") {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50">
+      <h1 className="text-2xl font-bold mb-8 text-gray-700">3x3 드래그 앤 드롭 그리드</h1>
+
+      <SwapGrid
+        key={resetCount}
+        items={boxes}
+        columns={3}
+        renderTile={BoxTile}
+        onChange={collab.change}
+        getItemLabel={getBoxLabel}
+        multiSelect
+        onDragPresence={collab.sendPresence}
+        remoteDrags={collab.remoteDrags}
+      />
+
+      <p className="mt-6 text-gray-600 text-sm">박스를 드래그하여 순서를 변경해보세요.</p>
+      <button
+        onClick={handleReset}
+        className="mt-2 px-3 py-1 text-xs rounded-md text-gray-500 hover:bg-gray-200 transition-colors"
+      >
+        기본 배치로 되돌리기
+      </button>
+      <BoardSyncIndicator status={status} error={error} />
+
+      <div className="mt-3 flex items-center gap-2 text-xs text-gray-500">
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: collab.color }} />
+        <span>실시간 편집 · 나 외 {collab.peerCount}명</span>
+        <span className={collab.connected ? "text-emerald-600" : "text-amber-600"} aria-live="polite">
+          {collab.connected
+            ? "● 연결됨"
+            : transportKind === "websocket"
+              ? "○ 서버에 연결할 수 없어 혼자 편집 중"
+              : "○ 연결 끊김"}
+        </span>
+        {(Object.keys(COLLAB_TRANSPORT_LABELS) as CollabTransportKind[]).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => setTransportKind(kind)}
+            title={kind === "websocket" ? "npm run collab 으로 서버를 먼저 실행하세요" : undefined}
+            className={`px-2 py-0.5 rounded-md transition-colors ${
+              transportKind === kind ? "bg-gray-700 text-white" : "bg-gray-200 text-gray-600 hover:bg-gray-300"
+            }`}
+          >
+            {COLLAB_TRANSPORT_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
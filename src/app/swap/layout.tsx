@@ -0,0 +1,10 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "박스 그리드",
+  description: "박스를 드래그해 자리를 바꾸거나 끼워 넣는 그리드 데모",
+};
+
+export default function SwapLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
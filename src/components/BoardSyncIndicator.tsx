@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import type { BoardSyncStatus } from "@/hooks/useServerBoard";
+
+const STATUS_LABELS: Record<BoardSyncStatus, string> = {
+  loading: "서버에서 불러오는 중…",
+  synced: "☁ 서버에 저장됨",
+  saving: "☁ 저장 중…",
+  offline: "서버에 연결할 수 없어 이 기기에만 저장 중 (연결되면 다시 올림)",
+  error: "⚠ 서버 저장 실패",
+};
+
+const STATUS_COLORS: Record<BoardSyncStatus, string> = {
+  loading: "text-gray-400",
+  synced: "text-emerald-600",
+  saving: "text-gray-500",
+  offline: "text-amber-600",
+  error: "text-red-500",
+};
+
+/**
+ * 서버 동기화 상태 표시
+ */
+export const BoardSyncIndicator = ({
+  status,
+  error,
+}: {
+  status: BoardSyncStatus;
+  error: string | null;
+}) => (
+  <div className="mt-3 flex flex-col items-center text-xs" aria-live="polite">
+    <span className={STATUS_COLORS[status]}>{STATUS_LABELS[status]}</span>
+    {error && <span className="mt-1 text-red-500">{error}</span>}
+  </div>
+);
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+
+// 박스에 쓸 수 있는 색상 (Tailwind가 클래스를 찾을 수 있도록 전체 클래스 이름을 그대로 적음)
+export const BOX_COLOR_PALETTE = [
+  "bg-blue-500",
+  "bg-green-500",
+  "bg-purple-500",
+  "bg-red-500",
+  "bg-yellow-500",
+  "bg-pink-500",
+  "bg-indigo-500",
+  "bg-teal-500",
+  "bg-orange-500",
+  "bg-gray-500",
+] as const;
+
+export type BoxColor = (typeof BOX_COLOR_PALETTE)[number];
+
+export const isBoxColor = (color: unknown): color is BoxColor =>
+  BOX_COLOR_PALETTE.includes(color as BoxColor);
+
+/**
+ * 팔레트 색상 중 하나를 고르는 견본 버튼 줄
+ * 이름 입력 중에 눌러도 입력창 포커스가 빠지지 않도록 mousedown 기본 동작을 막는다.
+ */
+export const BoxColorPicker = ({
+  value,
+  onChange,
+  label,
+}: {
+  value: string;
+  onChange: (color: BoxColor) => void;
+  label: string;
+}) => (
+  <div role="radiogroup" aria-label={label} className="flex flex-wrap justify-center gap-1.5">
+    {BOX_COLOR_PALETTE.map((color) => (
+      <button
+        key={color}
+        role="radio"
+        aria-checked={value === color}
+        aria-label={color.replace("bg-", "").replace("-500", "")}
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onChange(color)}
+        className={`w-6 h-6 rounded-full shadow-sm transition-transform hover:scale-110 ${color}
+          ${value === color ? "ring-2 ring-offset-2 ring-gray-700" : ""}`}
+      />
+    ))}
+  </div>
+);
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { createPortal } from "react-dom";
+import {
+  DragOverlay,
+  DropAnimation,
+  defaultDropAnimationSideEffects,
+} from "@dnd-kit/core";
+import { motion } from "framer-motion";
+
+// 놓을 때 대상 칸으로 살짝 튕기듯 들어가는 드롭 애니메이션
+const springDropAnimation: DropAnimation = {
+  duration: 320,
+  easing: "cubic-bezier(0.18, 0.67, 0.6, 1.22)",
+  sideEffects: defaultDropAnimationSideEffects({
+    styles: { active: { opacity: "0.3" } },
+  }),
+};
+
+/**
+ * 드래그 중인 아이템의 미리보기를 body 포털에 띄우는 오버레이
+ * 실제 노드는 제자리에 고스트로 남고, 미리보기는 들어 올려 살짝 기울인 모양으로 포인터를 따라간다.
+ * children이 없으면(드래그 중이 아니면) 아무것도 그리지 않는다.
+ */
+export const DragPreviewOverlay = ({
+  style,
+  count,
+  dropAnimation = springDropAnimation,
+  children,
+}: {
+  // 포털 밖으로 나가며 끊기는 CSS 변수 등을 다시 넘길 때 사용
+  style?: React.CSSProperties;
+  // 여러 개를 함께 끌 때 모서리에 표시할 개수
+  count?: number;
+  // 놓을 때 애니메이션 (null이면 제자리로 돌아가지 않고 바로 사라짐)
+  dropAnimation?: DropAnimation | null;
+  children: React.ReactNode;
+}) =>
+  createPortal(
+    <DragOverlay dropAnimation={dropAnimation} zIndex={50}>
+      {children ? (
+        <motion.div
+          style={style}
+          initial={{ scale: 1, rotate: 0 }}
+          animate={{ scale: 1.06, rotate: 3 }}
+          transition={{ type: "spring", stiffness: 400, damping: 20 }}
+          className="relative cursor-grabbing rounded-lg shadow-2xl"
+        >
+          {children}
+          {count !== undefined && count > 1 && (
+            <span className="absolute -top-2 -right-2 min-w-6 h-6 px-1.5 rounded-full bg-sky-500 text-white text-xs font-bold flex items-center justify-center shadow">
+              {count}
+            </span>
+          )}
+        </motion.div>
+      ) : null}
+    </DragOverlay>,
+    document.body
+  );
@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+
+// 카드 한 장 크기: 화면 폭과 열 수에 맞춰 줄어들되 최대 6rem (w-24)
+// 카드 그리드 컨테이너의 --tile-size CSS 변수로 넘겨 쓴다.
+export const getTileSize = (cols: number) => `min(6rem, calc((100vw - 2rem) / ${cols} - 1.5rem))`;
+
+export const TILE_SIZE_CLASS = "w-[var(--tile-size,6rem)] h-[var(--tile-size,6rem)]";
+
+/**
+ * 카드 한 면 (front는 처음 보이는 면, back은 뒤집으면 보이는 면)
+ * 색상은 className으로 받고, 내용은 children으로 그린다.
+ */
+export const CardFace = ({
+  side,
+  className,
+  children,
+}: {
+  side: "front" | "back";
+  className: string;
+  children: React.ReactNode;
+}) => (
+  <div
+    className={`${TILE_SIZE_CLASS} ${className} text-white flex items-center justify-center cursor-pointer rounded-lg shadow-md absolute backface-hidden`}
+    style={side === "back" ? { transform: 'rotateY(180deg)' } : undefined}
+  >
+    {children}
+  </div>
+);
+
+/**
+ * 3D로 뒤집히는 카드 (isFlipped면 back 면이 보임)
+ * revealDelay로 여러 장이 차례로 뒤집히게 할 수 있고, 나머지 props는 회전하는 div에 그대로 붙는다.
+ */
+export const FlipCard = ({
+  isFlipped,
+  revealDelay = 0,
+  front,
+  back,
+  style,
+  className = "",
+  ...rest
+}: React.HTMLAttributes<HTMLDivElement> & {
+  isFlipped: boolean;
+  revealDelay?: number;
+  front: React.ReactNode;
+  back: React.ReactNode;
+}) => (
+  <div
+    {...rest}
+    className={`relative ${TILE_SIZE_CLASS} preserve-3d ${className}`}
+    style={{
+      ...style,
+      transition: 'transform 0.6s',
+      transitionDelay: `${revealDelay}ms`,
+      transform: isFlipped ? 'rotateY(180deg)' : ''
+    }}
+  >
+    {front}
+    {back}
+  </div>
+);
+
+/* 3D 효과를 위한 CSS */
+const styles = `
+  .preserve-3d {
+    transform-style: preserve-3d;
+    position: relative;
+  }
+
+  .backface-hidden {
+    backface-visibility: hidden;
+    position: absolute;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+  }
+`;
+
+// CSS를 head에 추가
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement("style");
+  styleSheet.type = "text/css";
+  styleSheet.innerText = styles;
+  document.head.appendChild(styleSheet);
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useRef } from "react";
+import type { ReplayPlayer } from "@/hooks/useReplay";
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+const buttonClass =
+  "px-2 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+/**
+ * 녹화/리플레이 조작 패널
+ * 재생 중이 아니면 내보내기·불러오기 버튼을, 재생 중이면 재생 컨트롤을 보여준다.
+ */
+export const ReplayControls = ({
+  recordedCount,
+  player,
+  error,
+  onExport,
+  onImport,
+  onReplayRecording,
+  onExit,
+}: {
+  recordedCount: number;
+  player: ReplayPlayer | null;
+  error: string | null;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onReplayRecording: () => void;
+  onExit: () => void;
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  if (player) {
+    return (
+      <div className="mt-4 flex flex-col items-center gap-2">
+        <div className="flex items-center gap-2">
+          <span className="px-2 py-0.5 text-xs rounded bg-red-500 text-white">▶ 리플레이</span>
+          <button onClick={player.rewind} className={buttonClass} title="처음으로">
+            ⏮
+          </button>
+          {player.playing ? (
+            <button onClick={player.pause} className={buttonClass} title="일시정지">
+              ⏸
+            </button>
+          ) : (
+            <button onClick={player.play} disabled={player.finished} className={buttonClass} title="자동 재생">
+              ▶
+            </button>
+          )}
+          <button
+            onClick={player.step}
+            disabled={player.playing || player.finished}
+            className={buttonClass}
+            title="한 단계"
+          >
+            ⏭
+          </button>
+          <select
+            value={player.speed}
+            onChange={e => player.setSpeed(Number(e.target.value))}
+            className="px-1 py-1 text-sm border rounded-md"
+          >
+            {REPLAY_SPEEDS.map(speed => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+          <button onClick={onExit} className={buttonClass}>
+            리플레이 종료
+          </button>
+        </div>
+        <span className="text-xs text-gray-500">
+          {player.index} / {player.total} 이벤트
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500">● 녹화 중: {recordedCount}개 이벤트</span>
+        <button onClick={onReplayRecording} disabled={recordedCount <= 1} className={buttonClass}>
+          다시 보기
+        </button>
+        <button onClick={onExport} disabled={recordedCount === 0} className={buttonClass}>
+          JSON 내보내기
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          리플레이 불러오기
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { DEMO_ROUTES } from "@/lib/demoRoutes";
+import { useIsEmbedded } from "@/hooks/useIsEmbedded";
+
+/**
+ * 모든 페이지 상단의 데모 내비게이션 (갤러리 미리보기 iframe 안에서는 숨김)
+ */
+export const SiteNav = () => {
+  const pathname = usePathname();
+  const embedded = useIsEmbedded();
+
+  if (embedded) return null;
+
+  return (
+    <nav aria-label="데모 목록" className="sticky top-0 z-40 border-b border-gray-200 bg-white/90 backdrop-blur">
+      <div className="mx-auto flex max-w-5xl items-center gap-1 overflow-x-auto px-4 py-2 text-sm">
+        <Link href="/" className="mr-3 shrink-0 font-bold text-gray-800">
+          드래그 앤 드롭 데모
+        </Link>
+        {DEMO_ROUTES.map((demo) => {
+          const active = pathname === demo.href;
+          return (
+            <Link
+              key={demo.href}
+              href={demo.href}
+              aria-current={active ? "page" : undefined}
+              className={`shrink-0 rounded-md px-3 py-1 transition-colors ${
+                active ? "bg-gray-700 text-white" : "text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {demo.title}
+            </Link>
+          );
+        })}
+      </div>
+    </nav>
+  );
+};
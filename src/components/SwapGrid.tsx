@@ -0,0 +1,947 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  DndContext,
+  useDraggable,
+  useDroppable,
+  DragEndEvent,
+  DragStartEvent,
+  DragOverEvent,
+  DragMoveEvent,
+  UniqueIdentifier,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  rectSortingStrategy,
+  useSortable,
+  arrayMove,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { motion, AnimatePresence } from "framer-motion";
+import { useBoardSensors } from "@/hooks/useBoardSensors";
+import { useGridKeyboardNavigation } from "@/hooks/useGridKeyboardNavigation";
+import { createKoreanAnnouncements, createKoreanInstructions } from "@/lib/dndAnnouncements";
+import { useHistory } from "@/hooks/useHistory";
+import {
+  useReplayRecorder,
+  useReplayPlayer,
+  downloadReplay,
+  parseReplay,
+  TimedEvent,
+} from "@/hooks/useReplay";
+import { ReplayControls } from "@/components/ReplayControls";
+import { DragPreviewOverlay } from "@/components/DragPreviewOverlay";
+import type { DragPresence, RemoteDrag } from "@/lib/collabTransport";
+import { DropRule, DropSubject, checkDropRule } from "@/lib/dropRules";
+import { useRuledDroppable } from "@/hooks/useRuledDroppable";
+
+// 그리드에 올릴 수 있는 아이템의 최소 형태 (order가 화면상 위치)
+export interface SwapGridItem {
+  id: string;
+  order: number;
+}
+
+// 타일 렌더 함수에 넘기는 상태
+// order는 지금 놓으면 갖게 될 순서 (삽입 모드 드래그 중에는 미리보기 순서)
+export interface SwapGridTileState {
+  isDragging: boolean;
+  isSelected: boolean;
+  index: number;
+  order: number;
+}
+
+// 순서 변경 방식: 두 칸 맞바꾸기 / 목록처럼 끼워 넣고 나머지를 밀기
+export type ReorderMode = "swap" | "insert";
+
+export const REORDER_MODE_LABELS: Record<ReorderMode, string> = {
+  swap: "자리 바꾸기",
+  insert: "끼워 넣기",
+};
+
+// 실행 취소 기록에 남는 보드 액션
+type BoardAction =
+  | { type: "swap"; activeId: string; targetId: string }
+  | { type: "move"; fromIndex: number; toIndex: number }
+  | { type: "group"; before: string[]; after: string[] };
+
+// 리플레이로 녹화되는 드래그 세션 이벤트 (start의 order는 아이템 ID -> 순서)
+// dragEnd의 mode가 없으면 예전 파일이므로 자리 바꾸기로 재생, group은 함께 옮긴 선택 묶음
+type BoardReplayEvent =
+  | { type: "start"; order: Record<string, number> }
+  | { type: "dragStart"; id: string; group?: string[] }
+  | { type: "dragEnd"; id: string; overId: string | null; mode?: ReorderMode; group?: string[] }
+  | { type: "undo" }
+  | { type: "redo" };
+
+// 리플레이 파일 종류 식별자
+const REPLAY_KIND = "box-grid";
+
+const isIdList = (value: unknown) => Array.isArray(value) && value.every(id => typeof id === "string");
+
+const isBoardReplayEvent = (event: unknown): event is BoardReplayEvent => {
+  const e = event as Record<string, unknown> | null;
+  switch (e?.type) {
+    case "start":
+      return (
+        typeof e.order === "object" &&
+        e.order !== null &&
+        !Array.isArray(e.order) &&
+        Object.values(e.order).every(order => typeof order === "number")
+      );
+    case "dragStart":
+      return typeof e.id === "string" && (e.group === undefined || isIdList(e.group));
+    case "dragEnd":
+      return (
+        typeof e.id === "string" &&
+        (e.overId === null || typeof e.overId === "string") &&
+        (e.mode === undefined || e.mode === "swap" || e.mode === "insert") &&
+        (e.group === undefined || isIdList(e.group))
+      );
+    case "undo":
+    case "redo":
+      return true;
+    default:
+      return false;
+  }
+};
+
+// 드롭존 ID 접두사 (drop-0, drop-1 ...)
+const DROP_ZONE_PREFIX = "drop-";
+
+// 휴지통 드롭존 ID (onRemove가 있을 때만 보임)
+const TRASH_ID = "trash";
+
+// 타일이 드롭 규칙 판단에 내놓는 정보 (휴지통 규칙이 읽음)
+const TILE_DROP_SUBJECT: DropSubject = { type: "item" };
+
+const buttonClass =
+  "px-3 py-1 text-sm rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+/**
+ * 현재 아이템 순서 스냅샷
+ */
+const getOrderSnapshot = (items: SwapGridItem[]): Record<string, number> =>
+  Object.fromEntries(items.map((item) => [item.id, item.order]));
+
+// 타일 래퍼 공통 props
+type TileProps = {
+  id: string;
+  label: string;
+  gridIndex: number;
+  className: string;
+  // 함께 끌려가는 선택 묶음의 일부라 고스트로 보여야 하는지
+  isGhost: boolean;
+  isSelected: boolean;
+  onClick: (e: React.MouseEvent) => void;
+  children: React.ReactNode;
+};
+
+const tileBaseClass =
+  "touch-manipulation select-none focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300 rounded-lg cursor-grab";
+
+// 드래그 중 원래 칸에 남는 고스트 모양
+const ghostClass = "opacity-30 outline-dashed outline-2 outline-gray-400";
+
+// 다중 선택된 타일 강조
+const selectedClass = "ring-4 ring-sky-400 ring-offset-2";
+
+// 올가미 선택 사각형 (그리드 기준 좌표)
+type LassoRect = { x0: number; y0: number; x1: number; y1: number };
+
+/**
+ * 놓은 대상(드롭존 또는 아이템 ID)이 가리키는 칸 번호, 없으면 -1
+ */
+const getSlotIndex = (sortedIds: string[], overId: string): number =>
+  overId.startsWith(DROP_ZONE_PREFIX)
+    ? Number(overId.replace(DROP_ZONE_PREFIX, ""))
+    : sortedIds.indexOf(overId);
+
+/**
+ * activeId를 overId 칸에 끼워 넣었을 때의 ID 순서 (arrayMove)
+ */
+const getInsertedIds = (sortedIds: string[], activeId: string, overId: string): string[] => {
+  const fromIndex = sortedIds.indexOf(activeId);
+  const toIndex = getSlotIndex(sortedIds, overId);
+  if (fromIndex === -1 || toIndex === -1) return sortedIds;
+  return arrayMove(sortedIds, fromIndex, toIndex);
+};
+
+/**
+ * activeId와 overId 칸의 아이템을 맞바꿨을 때의 ID 순서
+ */
+const getSwappedIds = (sortedIds: string[], activeId: string, overId: string): string[] => {
+  const fromIndex = sortedIds.indexOf(activeId);
+  const toIndex = getSlotIndex(sortedIds, overId);
+  if (fromIndex === -1 || toIndex === -1) return sortedIds;
+  const next = [...sortedIds];
+  [next[fromIndex], next[toIndex]] = [next[toIndex], next[fromIndex]];
+  return next;
+};
+
+/**
+ * 선택 묶음을 빼낸 뒤 target 칸부터 원래 순서대로 이어 붙인 ID 순서
+ */
+const getGroupPlacedIds = (sortedIds: string[], group: string[], overId: string): string[] => {
+  const toIndex = getSlotIndex(sortedIds, overId);
+  if (toIndex === -1) return sortedIds;
+  const rest = sortedIds.filter((id) => !group.includes(id));
+  const start = Math.min(toIndex, rest.length);
+  return [...rest.slice(0, start), ...group, ...rest.slice(start)];
+};
+
+/**
+ * 두 사각형이 겹치는지
+ */
+const rectsIntersect = (a: DOMRect, b: { left: number; top: number; right: number; bottom: number }) =>
+  a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top;
+
+/**
+ * 드래그 가능한 타일 래퍼 (모양은 renderTile이 결정)
+ * 끄는 동안 노드는 움직이지 않고 고스트로 남으며, 움직이는 모습은 DragPreviewOverlay가 그린다.
+ */
+const DraggableTile = ({
+  id,
+  label,
+  gridIndex,
+  className,
+  isGhost,
+  isSelected,
+  onClick,
+  children,
+}: TileProps) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id,
+    data: { dropSubject: TILE_DROP_SUBJECT },
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...listeners}
+      {...attributes}
+      onClick={onClick}
+      aria-label={`${label}, ${gridIndex + 1}번째${isSelected ? ", 선택됨" : ""}`}
+      data-grid-index={gridIndex}
+      className={`${tileBaseClass} ${className} ${isDragging || isGhost ? ghostClass : ""} ${isSelected ? selectedClass : ""}`}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * 삽입 모드용 정렬 타일 래퍼
+ * 드래그 중 다른 타일이 밀려나는 미리보기를 dnd-kit sortable이 처리한다.
+ */
+const SortableTile = ({
+  id,
+  label,
+  gridIndex,
+  className,
+  isGhost,
+  isSelected,
+  onClick,
+  children,
+}: TileProps) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id,
+    data: { dropSubject: TILE_DROP_SUBJECT },
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...listeners}
+      {...attributes}
+      onClick={onClick}
+      aria-label={`${label}, ${gridIndex + 1}번째${isSelected ? ", 선택됨" : ""}`}
+      data-grid-index={gridIndex}
+      className={`${tileBaseClass} ${className} ${isDragging || isGhost ? ghostClass : ""} ${isSelected ? selectedClass : ""}`}
+    >
+      {children}
+    </div>
+  );
+};
+
+/**
+ * 드롭 가능한 영역
+ */
+const DropZone = ({
+  id,
+  isActive,
+  isOver,
+  disabled,
+  className,
+  children,
+}: {
+  id: string;
+  isActive: boolean;
+  isOver: boolean;
+  disabled: boolean;
+  className: string;
+  children: React.ReactNode;
+}) => {
+  const { setNodeRef, isOver: dropIsOver } = useDroppable({ id, disabled });
+
+  return (
+    <motion.div
+      ref={setNodeRef}
+      layout
+      transition={{
+        type: "spring",
+        stiffness: 300,
+        damping: 30
+      }}
+      className={`${className} flex items-center justify-center transition-all duration-200
+        ${isActive ? "bg-gray-100 rounded-lg" : ""}
+        ${!disabled && (isOver || dropIsOver) ? "bg-gray-200 rounded-lg" : ""}`}
+    >
+      {children}
+    </motion.div>
+  );
+};
+
+/**
+ * 끌어다 놓으면 아이템을 지우는 휴지통
+ */
+const TrashZone = ({ isDragging, rule }: { isDragging: boolean; rule?: DropRule }) => {
+  const { setNodeRef, isOver, verdict } = useRuledDroppable({ id: TRASH_ID, rule });
+  const rejection = verdict?.allowed === false ? verdict.reason : null;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`mt-4 w-full max-w-xs h-14 flex items-center justify-center gap-2 rounded-lg border-2 border-dashed text-sm transition-colors
+        ${rejection
+          ? isOver
+            ? "border-red-400 bg-red-50 text-red-400 cursor-not-allowed"
+            : "border-gray-200 text-gray-300"
+          : isOver
+            ? "border-red-500 bg-red-50 text-red-600"
+            : isDragging
+              ? "border-gray-400 text-gray-500"
+              : "border-gray-200 text-gray-400"}`}
+    >
+      🗑 {rejection && isOver ? rejection : isOver ? "놓으면 삭제" : "여기로 끌어 삭제"}
+    </div>
+  );
+};
+
+
+/**
+ * 아이템 순서를 드래그로 바꾸는 그리드 (기본은 두 칸 맞바꾸기)
+ *
+ * items와 onChange로 제어되는 컴포넌트로, 순서가 바뀌면 order가 갱신된 새 배열을 onChange로 넘긴다.
+ * 삽입 모드에서는 놓은 칸에 끼워 넣고 사이의 아이템을 한 칸씩 민다.
+ * 키보드 드래그, 스크린 리더 안내, 실행 취소/다시 실행, 리플레이 녹화가 함께 들어 있다.
+ * onRemove를 넘기면 휴지통이 생기고, 지운 아이템은 AnimatePresence exit 애니메이션으로 사라진다.
+ * trashRule로 휴지통 규칙을 주면 막혔을 때 휴지통이 흐려지고, 그곳에 놓으면 제자리로 돌아간다.
+ */
+export const SwapGrid = <T extends SwapGridItem>({
+  items,
+  columns,
+  renderTile,
+  onChange,
+  getItemLabel = (item) => item.id,
+  tileClassName = "w-20 h-20 sm:w-24 sm:h-24",
+  zoneClassName = "w-24 h-24 sm:w-28 sm:h-28",
+  gridClassName = "gap-2 p-4 sm:gap-4 sm:p-8 rounded-xl bg-white shadow-sm",
+  controls = true,
+  defaultMode = "swap",
+  lockMode = false,
+  multiSelect = false,
+  onDragPresence,
+  remoteDrags = [],
+  onRemove,
+  trashRule,
+  previewSwaps = false,
+}: {
+  items: T[];
+  columns: number;
+  renderTile: (item: T, state: SwapGridTileState) => React.ReactNode;
+  onChange: (items: T[]) => void;
+  // 스크린 리더와 aria-label에 쓰이는 아이템 이름
+  getItemLabel?: (item: T) => string;
+  // 타일/드롭존 크기 (Tailwind 클래스)
+  tileClassName?: string;
+  zoneClassName?: string;
+  // 그리드 컨테이너의 간격·배경 클래스
+  gridClassName?: string;
+  // 실행 취소·리플레이 컨트롤 표시 여부
+  controls?: boolean;
+  // 처음 선택된 순서 변경 방식
+  defaultMode?: ReorderMode;
+  // defaultMode로 고정하고 방식 선택 토글을 숨김 (정해진 방식으로만 푸는 퍼즐용)
+  lockMode?: boolean;
+  // Shift/Ctrl 클릭과 올가미로 여러 개를 골라 함께 옮기기
+  multiSelect?: boolean;
+  // 드래그 중인 아이템과 그리드 안 위치를 알림 (협업 동기화용, 끝나면 null)
+  onDragPresence?: (drag: DragPresence | null) => void;
+  // 다른 사용자가 끌고 있는 위치에 그릴 커서
+  remoteDrags?: RemoteDrag[];
+  // 휴지통에 놓은 아이템 ID 목록 (선택 묶음이면 여러 개)
+  onRemove?: (ids: string[]) => void;
+  // 휴지통에 놓을 수 있는지
+  trashRule?: DropRule;
+  // 맞바꾸기 모드에서도 끌고 있는 동안 바뀔 순서(order)를 renderTile에 미리 넘김
+  previewSwaps?: boolean;
+}) => {
+  const [mode, setMode] = useState<ReorderMode>(defaultMode);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [lasso, setLasso] = useState<LassoRect | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // 올가미를 Shift/Ctrl과 함께 시작했으면 기존 선택에 더함
+  const lassoBaseRef = useRef<string[]>([]);
+  const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
+  const [hoveredDropZone, setHoveredDropZone] = useState<string | null>(null);
+  const [replayEvents, setReplayEvents] = useState<TimedEvent<BoardReplayEvent>[] | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  // 리플레이 중에 보여 주는 배치 (실제 items와 onChange는 건드리지 않음)
+  const [replayItems, setReplayItems] = useState<T[] | null>(null);
+  // 휴지통에 놓은 미리보기는 제자리로 돌아가지 않고 바로 사라짐
+  const [droppedInTrash, setDroppedInTrash] = useState(false);
+  // 삽입 모드에서 놓은 직후 한 번은 sortable transform이 이미 새 자리로 옮겨 놓았으므로 layout 전환을 건너뜀
+  const [settlingSort, setSettlingSort] = useState(false);
+
+  // 리플레이 재생 중에는 녹화하지 않음
+  const replaying = replayEvents !== null;
+  const {
+    events: recordedEvents,
+    start: startRecording,
+    record: recordEvent,
+  } = useReplayRecorder<BoardReplayEvent>(replaying);
+
+  // 리플레이는 화면에만 재현해, onChange에 걸린 저장·서버 동기화·협업 방송이 재생된 배치로 덮이지 않게 함
+  const viewItems = replayItems ?? items;
+  const commitItems = (next: T[]) => (replaying ? setReplayItems(next) : onChange(next));
+
+  const sortedItems = useMemo(
+    () => [...viewItems].sort((a, b) => a.order - b.order),
+    [viewItems]
+  );
+  const sortedIds = sortedItems.map((item) => item.id);
+
+  // 선택된 타일을 끌면 선택 묶음 전체가 화면 순서대로 함께 움직임
+  const dragGroup =
+    activeId !== null && selectedIds.length > 1 && selectedIds.includes(String(activeId))
+      ? sortedIds.filter((id) => selectedIds.includes(id))
+      : null;
+
+  // 드래그 중이면 지금 놓았을 때의 ID 순서로 번호를 미리 보여줌 (맞바꾸기는 previewSwaps일 때만)
+  const previewIds =
+    activeId === null || hoveredDropZone === null
+      ? sortedIds
+      : dragGroup
+        ? getGroupPlacedIds(sortedIds, dragGroup, hoveredDropZone)
+        : mode === "insert"
+          ? getInsertedIds(sortedIds, String(activeId), hoveredDropZone)
+          : previewSwaps
+            ? getSwappedIds(sortedIds, String(activeId), hoveredDropZone)
+            : sortedIds;
+
+  const sensors = useBoardSensors();
+
+  // 스크린 리더 안내: 아이템은 이름으로, 드롭존은 몇 번째 칸인지로 읽음
+  const accessibility = useMemo(
+    () => ({
+      announcements: createKoreanAnnouncements((id) => {
+        const key = String(id);
+        if (key === TRASH_ID) return "휴지통";
+        if (key.startsWith(DROP_ZONE_PREFIX)) {
+          return `${Number(key.replace(DROP_ZONE_PREFIX, "")) + 1}번째 칸`;
+        }
+        const item = viewItems.find((candidate) => candidate.id === key);
+        return item ? getItemLabel(item) : key;
+      }),
+      screenReaderInstructions: createKoreanInstructions("Space 또는 Enter"),
+    }),
+    [viewItems, getItemLabel]
+  );
+
+  // 드래그 중이 아닐 때 방향키로 타일 사이 포커스 이동
+  const handleGridKeyDown = useGridKeyboardNavigation(columns, activeId === null);
+
+  // 주어진 ID 순서대로 모든 아이템의 order를 다시 매김
+  const renumberItems = (orderedIds: string[]) => {
+    commitItems(viewItems.map((item) => ({ ...item, order: orderedIds.indexOf(item.id) })));
+  };
+
+  // 두 아이템의 order 값을 교환 (교환은 자기 자신이 역연산)
+  const swapItems = (firstId: string, secondId: string) => {
+    const first = viewItems.find((item) => item.id === firstId);
+    const second = viewItems.find((item) => item.id === secondId);
+    if (!first || !second) return;
+
+    commitItems(
+      viewItems.map((item) => {
+        if (item.id === firstId) return { ...item, order: second.order };
+        if (item.id === secondId) return { ...item, order: first.order };
+        return item;
+      })
+    );
+  };
+
+  // 실행 취소 시에도 framer-motion layout 전환으로 타일이 제자리로 돌아감
+  const {
+    execute,
+    undo,
+    redo,
+    clear: clearHistory,
+    canUndo,
+    canRedo,
+  } = useHistory<BoardAction>({
+    apply: (action) => {
+      switch (action.type) {
+        case "swap":
+          return swapItems(action.activeId, action.targetId);
+        case "move":
+          return renumberItems(arrayMove(sortedIds, action.fromIndex, action.toIndex));
+        case "group":
+          return renumberItems(action.after);
+      }
+    },
+    revert: (action) => {
+      switch (action.type) {
+        case "swap":
+          return swapItems(action.activeId, action.targetId);
+        case "move":
+          return renumberItems(arrayMove(sortedIds, action.toIndex, action.fromIndex));
+        case "group":
+          return renumberItems(action.before);
+      }
+    },
+    onUndo: () => recordEvent({ type: "undo" }),
+    onRedo: () => recordEvent({ type: "redo" }),
+    enableShortcuts: controls && !replaying,
+  });
+
+  // 마운트 시 현재 배치를 시작점으로 녹화 시작
+  useEffect(() => {
+    startRecording({ type: "start", order: getOrderSnapshot(items) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // 아이템이 추가·삭제되면 이전 기록의 순서를 되돌릴 수 없으므로 실행 취소 기록을 비움
+  const itemIdsKey = items.map((item) => item.id).sort().join(",");
+  useEffect(() => {
+    clearHistory();
+    setSelectedIds((prev) => prev.filter((id) => itemIdsKey.split(",").includes(id)));
+  }, [itemIdsKey, clearHistory]);
+
+  // 휴지통 규칙에 막혔으면 휴지통에 놓아도 지우지 않음 (드롭존과 아이템 칸은 항상 받음)
+  const canDropOn = (overId: string) =>
+    overId !== TRASH_ID || checkDropRule(trashRule, TILE_DROP_SUBJECT).allowed;
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const id = String(event.active.id);
+    // 선택되지 않은 타일을 끌면 기존 선택은 풀고 그 타일만 옮김
+    const group = selectedIds.length > 1 && selectedIds.includes(id) ? selectedIds : undefined;
+    if (!group) {
+      setSelectedIds([]);
+    }
+    setDroppedInTrash(false);
+    recordEvent({ type: "dragStart", id, group });
+    setActiveId(event.active.id);
+  };
+
+  // 끌고 있는 타일 중심을 그리드 크기 기준 0~1 좌표로 알림
+  const handleDragMove = (event: DragMoveEvent) => {
+    const grid = gridRef.current;
+    const rect = event.active.rect.current.translated;
+    if (!onDragPresence || !grid || !rect) return;
+    const origin = grid.getBoundingClientRect();
+    onDragPresence({
+      id: String(event.active.id),
+      x: (rect.left + rect.width / 2 - origin.left) / origin.width,
+      y: (rect.top + rect.height / 2 - origin.top) / origin.height,
+    });
+  };
+
+  const handleDragOver = (event: DragOverEvent) => {
+    const { over } = event;
+    setHoveredDropZone(over ? String(over.id) : null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (mode === "insert") {
+      setSettlingSort(true);
+    }
+    // 규칙에 막힌 곳에 놓으면 아무 데도 놓지 않은 것처럼 제자리로 돌아감
+    const overId = over && canDropOn(String(over.id)) ? String(over.id) : null;
+    const group = dragGroup ?? undefined;
+    recordEvent({ type: "dragEnd", id: String(active.id), overId, mode, group });
+    onDragPresence?.(null);
+    setActiveId(null);
+    setHoveredDropZone(null);
+
+    if (!overId) return;
+
+    if (overId === TRASH_ID) {
+      if (onRemove && !replaying) {
+        setDroppedInTrash(true);
+        setSelectedIds([]);
+        onRemove(group ?? [String(active.id)]);
+      }
+      return;
+    }
+
+    dropItem(String(active.id), overId, mode, group);
+  };
+
+  // 아이템을 드롭존이나 다른 아이템 위에 놓았을 때 처리 (리플레이에서도 사용)
+  const dropItem = (activeItemId: string, overId: string, dropMode: ReorderMode, group?: string[]) => {
+    if (group) {
+      // 묶음은 모드와 관계없이 놓은 칸부터 순서대로 끼워 넣음
+      const after = getGroupPlacedIds(sortedIds, group, overId);
+      if (after.every((id, index) => id === sortedIds[index])) return;
+      execute({ type: "group", before: sortedIds, after });
+      setSelectedIds([]);
+      return;
+    }
+
+    const fromIndex = sortedIds.indexOf(activeItemId);
+    const toIndex = getSlotIndex(sortedIds, overId);
+
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    if (dropMode === "insert") {
+      execute({ type: "move", fromIndex, toIndex });
+    } else {
+      execute({ type: "swap", activeId: activeItemId, targetId: sortedIds[toIndex] });
+    }
+  };
+
+  const activeItem = activeId !== null ? viewItems.find((item) => item.id === activeId) : undefined;
+
+  // 삽입 모드에서는 밀려나는 미리보기를 위해 정렬 타일을 씀
+  const Tile = mode === "insert" ? SortableTile : DraggableTile;
+
+  // 정렬 타일이 transform으로 움직이는 동안(드래그 중과 놓은 직후)만 layout 전환을 끔
+  // 실행 취소/다시 실행과 리플레이는 두 모드 모두 layout 전환으로 움직임
+  const isSorting = mode === "insert" && (activeId !== null || settlingSort);
+  useEffect(() => {
+    if (settlingSort) {
+      setSettlingSort(false);
+    }
+  }, [settlingSort]);
+
+  // Shift/Ctrl(⌘) 클릭은 선택 토글, 그냥 클릭은 선택 해제
+  const handleTileClick = (id: string) => (e: React.MouseEvent) => {
+    if (!multiSelect) return;
+    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+      setSelectedIds((prev) =>
+        prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]
+      );
+    } else {
+      setSelectedIds([]);
+    }
+  };
+
+  // 올가미 안에 걸친 타일 ID 목록
+  const getIdsInLasso = (rect: LassoRect) => {
+    const grid = gridRef.current;
+    if (!grid) return [];
+    const origin = grid.getBoundingClientRect();
+    const bounds = {
+      left: origin.left + Math.min(rect.x0, rect.x1),
+      right: origin.left + Math.max(rect.x0, rect.x1),
+      top: origin.top + Math.min(rect.y0, rect.y1),
+      bottom: origin.top + Math.max(rect.y0, rect.y1),
+    };
+    return Array.from(grid.querySelectorAll<HTMLElement>("[data-grid-index]"))
+      .filter((tile) => rectsIntersect(tile.getBoundingClientRect(), bounds))
+      .map((tile) => sortedIds[Number(tile.dataset.gridIndex)]);
+  };
+
+  // 타일이 아닌 빈 곳에서 마우스를 누르고 끌면 올가미 선택
+  const handleLassoPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!multiSelect || e.pointerType !== "mouse" || e.button !== 0) return;
+    if ((e.target as HTMLElement).closest("[data-grid-index]")) return;
+
+    const origin = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - origin.left;
+    const y = e.clientY - origin.top;
+    lassoBaseRef.current = e.shiftKey || e.ctrlKey || e.metaKey ? selectedIds : [];
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setLasso({ x0: x, y0: y, x1: x, y1: y });
+    setSelectedIds(lassoBaseRef.current);
+  };
+
+  const handleLassoPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!lasso) return;
+    const origin = e.currentTarget.getBoundingClientRect();
+    const next = { ...lasso, x1: e.clientX - origin.left, y1: e.clientY - origin.top };
+    setLasso(next);
+    const base = lassoBaseRef.current;
+    setSelectedIds([...base, ...getIdsInLasso(next).filter((id) => !base.includes(id))]);
+  };
+
+  const handleLassoPointerUp = () => {
+    setLasso(null);
+  };
+
+  // Esc로 선택 해제 후 방향키 포커스 이동 처리
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Escape" && activeId === null && selectedIds.length > 0) {
+      setSelectedIds([]);
+    }
+    handleGridKeyDown(e);
+  };
+
+  const handleDragCancel = () => {
+    if (mode === "insert") {
+      setSettlingSort(true);
+    }
+    onDragPresence?.(null);
+    setActiveId(null);
+    setHoveredDropZone(null);
+  };
+
+  // 리플레이 이벤트를 실제 보드 동작으로 재현
+  const handleReplayEvent = (event: BoardReplayEvent) => {
+    switch (event.type) {
+      case "start":
+        setReplayItems(items.map((item) => ({ ...item, order: event.order[item.id] ?? item.order })));
+        clearHistory();
+        break;
+      case "dragStart":
+        setSelectedIds(event.group ?? []);
+        setActiveId(event.id);
+        break;
+      case "dragEnd":
+        setActiveId(null);
+        if (event.overId) {
+          dropItem(event.id, event.overId, event.mode ?? "swap", event.group);
+        }
+        break;
+      case "undo":
+        undo();
+        break;
+      case "redo":
+        redo();
+        break;
+    }
+  };
+
+  const player = useReplayPlayer(replayEvents ?? [], handleReplayEvent);
+
+  // 리플레이 시작: 첫 start 이벤트를 재생하면 녹화 당시 배치로 돌아감
+  const startReplay = (events: TimedEvent<BoardReplayEvent>[]) => {
+    setReplayError(null);
+    setReplayEvents(events);
+    player.rewind();
+  };
+
+  const handleImportReplay = (json: string) => {
+    const events = parseReplay(json, REPLAY_KIND, "start", isBoardReplayEvent);
+    if (!events) {
+      setReplayError("올바른 박스 그리드 리플레이 파일이 아닙니다");
+      return;
+    }
+    startReplay(events);
+  };
+
+  // 리플레이 종료: 실제 배치로 돌아가고, 녹화는 보기 전 그대로 이어 감
+  const handleExitReplay = () => {
+    setReplayEvents(null);
+    setReplayItems(null);
+    player.rewind();
+    setActiveId(null);
+    setSelectedIds([]);
+    clearHistory();
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      accessibility={accessibility}
+      onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
+    >
+      <SortableContext items={sortedIds} strategy={rectSortingStrategy}>
+        <div className="flex flex-col items-center">
+          {!lockMode && (
+            <div
+              role="radiogroup"
+              aria-label="순서 변경 방식"
+              className={`mb-4 flex rounded-md bg-gray-200 p-0.5 text-sm ${replaying ? "pointer-events-none opacity-60" : ""}`}
+            >
+              {(Object.keys(REORDER_MODE_LABELS) as ReorderMode[]).map((option) => (
+                <button
+                  key={option}
+                  role="radio"
+                  aria-checked={mode === option}
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-1 rounded transition-colors ${
+                    mode === option ? "bg-white text-gray-800 shadow-sm" : "text-gray-600 hover:text-gray-800"
+                  }`}
+                >
+                  {REORDER_MODE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <motion.div
+            ref={gridRef}
+            className={`relative grid ${gridClassName} ${replaying ? "pointer-events-none" : ""}`}
+            style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            layout
+            onKeyDown={handleKeyDown}
+            onPointerDown={handleLassoPointerDown}
+            onPointerMove={handleLassoPointerMove}
+            onPointerUp={handleLassoPointerUp}
+            onPointerCancel={handleLassoPointerUp}
+            transition={{
+              type: "spring",
+              stiffness: 300,
+              damping: 30
+            }}
+          >
+            <AnimatePresence mode="popLayout">
+              {sortedItems.map((item, index) => (
+                <motion.div
+                  key={`${item.id}-container`}
+                  layout={!isSorting}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.9 }}
+                  transition={{
+                    type: "spring",
+                    stiffness: 500,
+                    damping: 30,
+                    mass: 1
+                  }}
+                >
+                  <DropZone
+                    id={`${DROP_ZONE_PREFIX}${index}`}
+                    isActive={mode === "swap" && activeId === item.id}
+                    isOver={hoveredDropZone === `${DROP_ZONE_PREFIX}${index}`}
+                    disabled={mode === "insert"}
+                    className={zoneClassName}
+                  >
+                    <Tile
+                      id={item.id}
+                      label={getItemLabel(item)}
+                      gridIndex={index}
+                      className={tileClassName}
+                      isGhost={dragGroup?.includes(item.id) ?? false}
+                      isSelected={selectedIds.includes(item.id)}
+                      onClick={handleTileClick(item.id)}
+                    >
+                      {renderTile(item, {
+                        isDragging: activeId === item.id,
+                        isSelected: selectedIds.includes(item.id),
+                        index,
+                        order: previewIds.indexOf(item.id),
+                      })}
+                    </Tile>
+                  </DropZone>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+
+            {(replaying ? [] : remoteDrags).map((drag) => {
+              const item = items.find((candidate) => candidate.id === drag.id);
+              return (
+                <div
+                  key={drag.peerId}
+                  className="absolute z-20 pointer-events-none flex items-start gap-1 transition-[left,top] duration-75"
+                  style={{ left: `${drag.x * 100}%`, top: `${drag.y * 100}%` }}
+                >
+                  <svg width="16" height="16" viewBox="0 0 16 16" style={{ color: drag.color }}>
+                    <path d="M1 1l5 14 2-6 6-2z" fill="currentColor" stroke="white" strokeWidth="1" />
+                  </svg>
+                  <span
+                    className="px-1.5 py-0.5 rounded text-[10px] text-white whitespace-nowrap opacity-90 shadow"
+                    style={{ backgroundColor: drag.color }}
+                  >
+                    {item ? getItemLabel(item) : drag.id}
+                  </span>
+                </div>
+              );
+            })}
+
+            {lasso && (
+              <div
+                className="absolute pointer-events-none border border-sky-500 bg-sky-400/20 rounded-sm"
+                style={{
+                  left: Math.min(lasso.x0, lasso.x1),
+                  top: Math.min(lasso.y0, lasso.y1),
+                  width: Math.abs(lasso.x1 - lasso.x0),
+                  height: Math.abs(lasso.y1 - lasso.y0),
+                }}
+              />
+            )}
+          </motion.div>
+
+          <DragPreviewOverlay count={dragGroup?.length} dropAnimation={droppedInTrash ? null : undefined}>
+            {activeItem && (
+              <div className={tileClassName}>
+                {renderTile(activeItem, {
+                  isDragging: true,
+                  isSelected: false,
+                  index: sortedIds.indexOf(activeItem.id),
+                  order: previewIds.indexOf(activeItem.id),
+                })}
+              </div>
+            )}
+          </DragPreviewOverlay>
+
+          {onRemove && !replaying && <TrashZone isDragging={activeId !== null} rule={trashRule} />}
+
+          {multiSelect && (
+            <p className="mt-3 text-xs text-gray-500">
+              Shift/Ctrl 클릭이나 빈 곳을 끌어 여러 개를 선택하면 함께 옮길 수 있어요
+              {selectedIds.length > 0 && ` · ${selectedIds.length}개 선택됨 (Esc로 해제)`}
+            </p>
+          )}
+
+          {controls && (
+            <>
+              <div className={`mt-4 flex gap-2 ${replaying ? "pointer-events-none opacity-60" : ""}`}>
+                <button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="실행 취소 (Ctrl+Z)"
+                  className={buttonClass}
+                >
+                  ↶ 실행 취소
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="다시 실행 (Ctrl+Shift+Z)"
+                  className={buttonClass}
+                >
+                  ↷ 다시 실행
+                </button>
+              </div>
+
+              <ReplayControls
+                recordedCount={recordedEvents.length}
+                player={replaying ? player : null}
+                error={replayError}
+                onExport={() => downloadReplay(REPLAY_KIND, recordedEvents)}
+                onImport={handleImportReplay}
+                onReplayRecording={() => startReplay(recordedEvents)}
+                onExit={handleExitReplay}
+              />
+            </>
+          )}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+};
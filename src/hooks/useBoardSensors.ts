@@ -0,0 +1,35 @@
+"use client";
+
+import {
+  KeyboardCoordinateGetter,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+
+/**
+ * 보드형 페이지가 함께 쓰는 드래그 센서
+ * 마우스는 조금만 움직여도 드래그, 터치는 길게 눌러야 드래그가 시작되어 페이지 스크롤이나 탭과 구분된다.
+ * 키보드는 sortable 칸 사이를 옮기며, 놓을 칸이 없는 보드는 coordinateGetter로 움직임을 직접 정한다.
+ */
+export function useBoardSensors(coordinateGetter: KeyboardCoordinateGetter = sortableKeyboardCoordinates) {
+  return useSensors(
+    useSensor(MouseSensor, {
+      activationConstraint: {
+        distance: 3,
+      }
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 250,
+        tolerance: 5,
+      }
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter,
+    })
+  );
+}
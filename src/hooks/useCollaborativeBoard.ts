@@ -0,0 +1,284 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SwapGridItem } from "@/components/SwapGrid";
+import {
+  BaseOwner,
+  CollabTransport,
+  CollabTransportKind,
+  DragPresence,
+  RemoteDrag,
+  StampedOp,
+  compareOps,
+  createBroadcastTransport,
+  createWebSocketTransport,
+  diffToOp,
+  replayOps,
+} from "@/lib/collabTransport";
+
+// 원격 사용자 커서 색상
+const PEER_COLORS = ["#ef4444", "#f59e0b", "#10b981", "#3b82f6", "#8b5cf6", "#ec4899", "#14b8a6"];
+
+// 드래그 위치는 이 간격(ms)보다 자주 보내지 않음
+const PRESENCE_INTERVAL_MS = 40;
+
+// 이 시간(ms) 동안 소식이 없는 원격 드래그는 지움 (탭이 갑자기 닫힌 경우)
+const STALE_DRAG_MS = 10000;
+
+interface Peer {
+  color: string;
+  drag: DragPresence | null;
+  seenAt: number;
+}
+
+const createClientId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const pickColor = (clientId: string) => {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+const isEarlier = (a: BaseOwner, b: BaseOwner) =>
+  a.joinedAt < b.joinedAt || (a.joinedAt === b.joinedAt && a.clientId < b.clientId);
+
+const getSortedIds = (items: SwapGridItem[]) =>
+  [...items].sort((a, b) => a.order - b.order).map((item) => item.id);
+
+/**
+ * 여러 탭/사용자가 같은 보드를 동시에 편집하는 동기화 훅
+ *
+ * 순서 변경은 Lamport 시계가 붙은 연산(swap 또는 전체 순서)으로 퍼뜨리고,
+ * 모든 클라이언트가 "가장 먼저 들어온 클라이언트의 시작 배치 + 전체 순서로 정렬한 연산"을 다시 적용하므로
+ * 동시에 일어난 충돌 스왑도 같은 order 값으로 수렴한다.
+ */
+export function useCollaborativeBoard<T extends SwapGridItem>({
+  roomId,
+  items,
+  onItemsChange,
+  transportKind,
+  enabled = true,
+}: {
+  roomId: string;
+  items: T[];
+  // 수렴한 배치를 반영 (저장 포함)
+  onItemsChange: (items: T[]) => void;
+  transportKind: CollabTransportKind;
+  enabled?: boolean;
+}) {
+  const clientIdRef = useRef("");
+  const [color, setColor] = useState(PEER_COLORS[0]);
+  const [peers, setPeers] = useState<Record<string, Peer>>({});
+  const [connected, setConnected] = useState(false);
+
+  const transportRef = useRef<CollabTransport | null>(null);
+  const ownerRef = useRef<BaseOwner>({ joinedAt: 0, clientId: "" });
+  const baseIdsRef = useRef<string[]>([]);
+  const opsRef = useRef<StampedOp[]>([]);
+  const clockRef = useRef(0);
+  const seqRef = useRef(0);
+  const lastPresenceRef = useRef(0);
+
+  // 메시지 핸들러가 항상 최신 아이템과 콜백을 쓰도록 ref에 보관
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const onItemsChangeRef = useRef(onItemsChange);
+  onItemsChangeRef.current = onItemsChange;
+
+  // 시작 배치에 연산을 다시 적용해 화면 배치를 맞춤
+  const converge = useCallback(() => {
+    const ids = replayOps(baseIdsRef.current, opsRef.current);
+    const current = itemsRef.current;
+    if (getSortedIds(current).every((id, index) => id === ids[index])) return;
+    onItemsChangeRef.current(
+      current.map((item) => ({ ...item, order: ids.indexOf(item.id) }))
+    );
+  }, []);
+
+  const mergeOps = useCallback((incoming: StampedOp[]) => {
+    const known = new Set(opsRef.current.map((stamped) => stamped.opId));
+    const fresh = incoming.filter((stamped) => !known.has(stamped.opId));
+    if (fresh.length === 0) return false;
+    fresh.forEach((stamped) => {
+      clockRef.current = Math.max(clockRef.current, stamped.clock);
+    });
+    opsRef.current = [...opsRef.current, ...fresh].sort(compareOps);
+    return true;
+  }, []);
+
+  const touchPeer = useCallback((peerId: string, peerColor: string, drag?: DragPresence | null) => {
+    setPeers((prev) => ({
+      ...prev,
+      [peerId]: {
+        color: peerColor,
+        drag: drag === undefined ? prev[peerId]?.drag ?? null : drag,
+        seenAt: Date.now(),
+      },
+    }));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const clientId = createClientId();
+    const myColor = pickColor(clientId);
+    clientIdRef.current = clientId;
+    setColor(myColor);
+
+    // 접속 시점의 배치를 시작 배치로 삼고, 더 먼저 들어온 클라이언트가 있으면 그쪽 배치로 바꿈
+    const joinedAt = Date.now();
+    ownerRef.current = { joinedAt, clientId };
+    baseIdsRef.current = getSortedIds(itemsRef.current);
+    opsRef.current = [];
+    clockRef.current = 0;
+    setPeers({});
+
+    let transport: CollabTransport;
+    try {
+      transport =
+        transportKind === "websocket"
+          ? createWebSocketTransport(roomId)
+          : createBroadcastTransport(roomId);
+    } catch {
+      setConnected(false);
+      return;
+    }
+    transportRef.current = transport;
+    // WebSocket은 열린 뒤에야 연결됨, 서버가 없거나 끊기면 다시 false
+    const unsubscribeStatus = transport.subscribeStatus(setConnected);
+
+    const sendState = () =>
+      transport.send({
+        type: "state",
+        from: clientId,
+        color: myColor,
+        owner: ownerRef.current,
+        baseIds: baseIdsRef.current,
+        ops: opsRef.current,
+      });
+
+    const unsubscribe = transport.subscribe((message) => {
+      if (message.from === clientId) return;
+
+      switch (message.type) {
+        case "hello":
+          touchPeer(message.from, message.color);
+          sendState();
+          break;
+        case "state": {
+          touchPeer(message.from, message.color);
+          let changed = mergeOps(message.ops);
+          if (isEarlier(message.owner, ownerRef.current)) {
+            ownerRef.current = message.owner;
+            baseIdsRef.current = message.baseIds;
+            changed = true;
+            // 기준 배치가 바뀌었으니 다른 클라이언트도 알 수 있게 다시 알림
+            sendState();
+          }
+          if (changed) converge();
+          break;
+        }
+        case "op":
+          if (mergeOps([message.stamped])) converge();
+          break;
+        case "presence":
+          touchPeer(message.from, message.color, message.drag);
+          break;
+        case "bye":
+          setPeers((prev) => {
+            const next = { ...prev };
+            delete next[message.from];
+            return next;
+          });
+          break;
+      }
+    });
+
+    transport.send({ type: "hello", from: clientId, color: myColor, joinedAt });
+
+    const sayBye = () => transport.send({ type: "bye", from: clientId });
+    window.addEventListener("pagehide", sayBye);
+
+    // 소식이 끊긴 원격 드래그 정리
+    const pruneTimer = setInterval(() => {
+      const now = Date.now();
+      setPeers((prev) => {
+        const stale = Object.entries(prev).filter(
+          ([, peer]) => peer.drag !== null && now - peer.seenAt > STALE_DRAG_MS
+        );
+        if (stale.length === 0) return prev;
+        const next = { ...prev };
+        stale.forEach(([peerId, peer]) => {
+          next[peerId] = { ...peer, drag: null };
+        });
+        return next;
+      });
+    }, STALE_DRAG_MS / 2);
+
+    return () => {
+      sayBye();
+      clearInterval(pruneTimer);
+      window.removeEventListener("pagehide", sayBye);
+      unsubscribe();
+      unsubscribeStatus();
+      transport.close();
+      transportRef.current = null;
+      setConnected(false);
+    };
+  }, [enabled, roomId, transportKind, converge, mergeOps, touchPeer]);
+
+  // 로컬 변경: 연산으로 바꿔 기록·전파한 뒤 전체 순서 기준으로 다시 맞춤
+  const change = useCallback(
+    (next: T[]) => {
+      const transport = transportRef.current;
+      const op = diffToOp(getSortedIds(itemsRef.current), getSortedIds(next));
+      if (!transport || !op) {
+        onItemsChangeRef.current(next);
+        return;
+      }
+
+      const stamped: StampedOp = {
+        opId: `${clientIdRef.current}:${++seqRef.current}`,
+        clock: ++clockRef.current,
+        from: clientIdRef.current,
+        op,
+      };
+      mergeOps([stamped]);
+      transport.send({ type: "op", from: clientIdRef.current, stamped });
+      // 충돌이 없으면 next와 같은 배치가 되고, 먼저 정렬되는 원격 연산이 있으면 그 뒤에 적용됨
+      converge();
+    },
+    [converge, mergeOps]
+  );
+
+  // 내 드래그 위치 알리기 (null이면 드래그 끝)
+  const sendPresence = useCallback(
+    (drag: DragPresence | null) => {
+      const transport = transportRef.current;
+      if (!transport) return;
+      const now = Date.now();
+      if (drag && now - lastPresenceRef.current < PRESENCE_INTERVAL_MS) return;
+      lastPresenceRef.current = now;
+      transport.send({ type: "presence", from: clientIdRef.current, color, drag });
+    },
+    [color]
+  );
+
+  const remoteDrags: RemoteDrag[] = Object.entries(peers)
+    .filter(([, peer]) => peer.drag !== null)
+    .map(([peerId, peer]) => ({ ...(peer.drag as DragPresence), peerId, color: peer.color }));
+
+  return {
+    connected,
+    color,
+    peerCount: Object.keys(peers).length,
+    remoteDrags,
+    change,
+    sendPresence,
+  };
+}
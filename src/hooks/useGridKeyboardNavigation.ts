@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useCallback } from "react";
+
+// 방향키 이동 대상 요소에 붙이는 인덱스 속성
+const GRID_INDEX_ATTRIBUTE = "data-grid-index";
+
+/**
+ * 그리드 안에서 방향키로 포커스를 옮기는 키 핸들러 훅
+ * 그리드 컨테이너의 onKeyDown에 연결하고, 각 칸에는 data-grid-index를 붙인다.
+ * 드래그 중에는 KeyboardSensor가 방향키를 쓰므로 enabled를 false로 둔다.
+ */
+export function useGridKeyboardNavigation(cols: number, enabled = true) {
+  return useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      if (!enabled) return;
+
+      const cell = (e.target as HTMLElement).closest<HTMLElement>(`[${GRID_INDEX_ATTRIBUTE}]`);
+      if (!cell) return;
+
+      const cells = Array.from(
+        e.currentTarget.querySelectorAll<HTMLElement>(`[${GRID_INDEX_ATTRIBUTE}]`)
+      );
+      const index = Number(cell.getAttribute(GRID_INDEX_ATTRIBUTE));
+
+      let next: number;
+      switch (e.key) {
+        case "ArrowLeft":
+          next = index - 1;
+          break;
+        case "ArrowRight":
+          next = index + 1;
+          break;
+        case "ArrowUp":
+          next = index - cols;
+          break;
+        case "ArrowDown":
+          next = index + cols;
+          break;
+        case "Home":
+          next = 0;
+          break;
+        case "End":
+          next = cells.length - 1;
+          break;
+        default:
+          return;
+      }
+
+      const target = cells.find(el => Number(el.getAttribute(GRID_INDEX_ATTRIBUTE)) === next);
+      if (!target) return;
+
+      e.preventDefault();
+      target.focus();
+    },
+    [cols, enabled]
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// 실행 취소 기록 훅 옵션
+export interface HistoryOptions<A> {
+  // 액션을 실제 상태에 반영
+  apply: (action: A) => void;
+  // 액션을 상태에서 되돌리기
+  revert: (action: A) => void;
+  // 해당 액션을 되돌릴 수 있는지 (예: 연습 모드에서만 뒤집기 취소 허용)
+  canUndo?: (action: A) => boolean;
+  // 해당 액션을 다시 실행할 수 있는지
+  canRedo?: (action: A) => boolean;
+  // 실행 취소/다시 실행이 일어난 뒤 호출 (예: 리플레이 녹화)
+  onUndo?: (action: A) => void;
+  onRedo?: (action: A) => void;
+  // 키보드 단축키 사용 여부 (기본값 true)
+  enableShortcuts?: boolean;
+}
+
+/**
+ * 타입이 지정된 액션 단위의 실행 취소/다시 실행 기록 훅
+ *
+ * 상태 변경은 모두 execute(action)을 통해 실행하고,
+ * 되돌리기는 호출하는 쪽이 넘긴 revert(action)으로 처리한다.
+ * Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) 단축키도 함께 등록된다.
+ */
+export function useHistory<A>({
+  apply,
+  revert,
+  canUndo: canUndoAction,
+  canRedo: canRedoAction,
+  onUndo,
+  onRedo,
+  enableShortcuts = true,
+}: HistoryOptions<A>) {
+  const [past, setPast] = useState<A[]>([]);
+  const [future, setFuture] = useState<A[]>([]);
+
+  const lastAction = past[past.length - 1];
+  const nextAction = future[0];
+
+  const canUndo =
+    lastAction !== undefined && (!canUndoAction || canUndoAction(lastAction));
+  const canRedo =
+    nextAction !== undefined && (!canRedoAction || canRedoAction(nextAction));
+
+  // 새 액션 실행 (다시 실행 기록은 버림)
+  const execute = (action: A) => {
+    apply(action);
+    setPast(prev => [...prev, action]);
+    setFuture([]);
+  };
+
+  const undo = () => {
+    if (!canUndo) return;
+    revert(lastAction);
+    setPast(prev => prev.slice(0, -1));
+    setFuture(prev => [lastAction, ...prev]);
+    onUndo?.(lastAction);
+  };
+
+  const redo = () => {
+    if (!canRedo) return;
+    apply(nextAction);
+    setFuture(prev => prev.slice(1));
+    setPast(prev => [...prev, nextAction]);
+    onRedo?.(nextAction);
+  };
+
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  // 단축키 핸들러가 항상 최신 undo/redo를 호출하도록 ref에 보관
+  const handlersRef = useRef({ undo, redo });
+  handlersRef.current = { undo, redo };
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handlersRef.current.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handlersRef.current.redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enableShortcuts]);
+
+  return { past, future, execute, undo, redo, clear, canUndo, canRedo };
+}
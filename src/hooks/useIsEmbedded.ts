@@ -0,0 +1,22 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * 지금 창이 iframe 안인지 (마운트 effect처럼 훅 상태를 기다릴 수 없을 때 직접 확인)
+ */
+export const isEmbeddedWindow = () => window.self !== window.top;
+
+/**
+ * 페이지가 iframe 안에 그려지고 있는지 (갤러리 미리보기)
+ * 서버 렌더와 첫 렌더는 false로 맞추고 마운트 뒤에 확인한다.
+ */
+export function useIsEmbedded() {
+  const [embedded, setEmbedded] = useState(false);
+
+  useEffect(() => {
+    setEmbedded(isEmbeddedWindow());
+  }, []);
+
+  return embedded;
+}
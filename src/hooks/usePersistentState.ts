@@ -0,0 +1,37 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { VersionedStore } from "@/lib/versionedStorage";
+
+/**
+ * 버전 저장소에 자동 저장되는 상태 훅
+ *
+ * 서버 렌더와 첫 클라이언트 렌더는 defaultValue로 맞추고(hydration 에러 방지),
+ * 마운트 뒤에 저장된 값을 불러온다. 불러오기 전에는 저장하지 않으므로 기본값이 저장본을 덮어쓰지 않는다.
+ * reset()은 저장본을 지우고 기본값으로 되돌린다.
+ */
+export function usePersistentState<T>(store: VersionedStore<T>, defaultValue: T) {
+  const [value, setValue] = useState<T>(defaultValue);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const saved = store.load();
+    if (saved !== null) {
+      setValue(saved);
+    }
+    setLoaded(true);
+  }, [store]);
+
+  useEffect(() => {
+    if (loaded) {
+      store.save(value);
+    }
+  }, [store, value, loaded]);
+
+  const reset = useCallback(() => {
+    store.clear();
+    setValue(defaultValue);
+  }, [store, defaultValue]);
+
+  return { value, setValue, reset, loaded };
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// 리플레이 이벤트 공통 형태 (type으로 구분)
+export interface ReplayEventBase {
+  type: string;
+}
+
+// 기록 시작 시점부터의 경과 시간(ms)이 붙은 이벤트
+export type TimedEvent<E extends ReplayEventBase> = E & { t: number };
+
+// 내보내기/불러오기용 리플레이 파일 형식
+export interface ReplayFile<E extends ReplayEventBase> {
+  version: 1;
+  kind: string;
+  recordedAt: string;
+  events: TimedEvent<E>[];
+}
+
+/**
+ * 이벤트 타임라인 녹화 훅
+ * start(event)로 새 녹화를 시작하고 record(event)로 이벤트를 이어 붙인다.
+ * paused가 true인 동안(예: 리플레이 재생 중)에는 start와 record가 모두 무시되어,
+ * 재생이 녹화 당시의 start 이벤트를 다시 실행해도 기존 녹화가 지워지지 않는다.
+ */
+export function useReplayRecorder<E extends ReplayEventBase>(paused = false) {
+  const [events, setEvents] = useState<TimedEvent<E>[]>([]);
+  const startedAtRef = useRef(0);
+
+  const start = useCallback(
+    (event: E) => {
+      if (paused) return;
+      startedAtRef.current = Date.now();
+      setEvents([{ ...event, t: 0 }]);
+    },
+    [paused]
+  );
+
+  const record = useCallback(
+    (event: E) => {
+      if (paused) return;
+      const t = Date.now() - startedAtRef.current;
+      setEvents(prev => (prev.length === 0 ? prev : [...prev, { ...event, t }]));
+    },
+    [paused]
+  );
+
+  return { events, start, record };
+}
+
+/**
+ * 녹화된 이벤트를 한 단계씩 또는 자동으로 재생하는 훅
+ * 이벤트마다 onEvent가 한 번씩 호출되며, 자동 재생 시 원래 간격을 speed 배속으로 따른다.
+ */
+export function useReplayPlayer<E extends ReplayEventBase>(
+  events: TimedEvent<E>[],
+  onEvent: (event: TimedEvent<E>) => void
+) {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // 타이머 콜백이 항상 최신 핸들러를 호출하도록 ref에 보관
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const finished = index >= events.length;
+
+  const step = useCallback(() => {
+    if (index >= events.length) return;
+    onEventRef.current(events[index]);
+    setIndex(index + 1);
+  }, [events, index]);
+
+  const rewind = useCallback(() => {
+    setPlaying(false);
+    setIndex(0);
+  }, []);
+
+  // 자동 재생: 다음 이벤트까지의 원래 간격만큼 기다린 뒤 한 단계 진행
+  useEffect(() => {
+    if (!playing) return;
+    if (finished) {
+      setPlaying(false);
+      return;
+    }
+
+    const previousT = index === 0 ? events[0].t : events[index - 1].t;
+    const delay = Math.max(0, events[index].t - previousT) / speed;
+    const timer = setTimeout(step, delay);
+    return () => clearTimeout(timer);
+  }, [playing, finished, index, events, speed, step]);
+
+  return {
+    index,
+    total: events.length,
+    playing,
+    finished,
+    speed,
+    setSpeed,
+    play: () => setPlaying(true),
+    pause: () => setPlaying(false),
+    step,
+    rewind,
+  };
+}
+
+export type ReplayPlayer = ReturnType<typeof useReplayPlayer>;
+
+/**
+ * 리플레이를 JSON 파일로 내려받기
+ */
+export const downloadReplay = <E extends ReplayEventBase>(kind: string, events: TimedEvent<E>[]) => {
+  const file: ReplayFile<E> = {
+    version: 1,
+    kind,
+    recordedAt: new Date().toISOString(),
+    events,
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${kind}-replay-${Date.now()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * JSON 문자열을 리플레이로 읽기
+ * 모든 이벤트가 시각(t)을 갖고 isEvent로 종류별 필드까지 확인되어야 하며,
+ * 형식이 맞지 않거나 다른 종류의 리플레이면 null
+ */
+export const parseReplay = <E extends ReplayEventBase>(
+  json: string,
+  kind: string,
+  startType: E["type"],
+  isEvent: (event: unknown) => event is E
+): TimedEvent<E>[] | null => {
+  try {
+    const file = JSON.parse(json) as Partial<ReplayFile<E>>;
+    if (file.version !== 1 || file.kind !== kind || !Array.isArray(file.events)) return null;
+    if (file.events.length === 0 || file.events[0].type !== startType) return null;
+    const valid = file.events.every(
+      (event: unknown) => typeof (event as Partial<TimedEvent<E>> | null)?.t === "number" && isEvent(event)
+    );
+    return valid ? file.events : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,31 @@
+"use client";
+
+import { useDroppable } from "@dnd-kit/core";
+import { DropRule, DropSubject, DropVerdict, checkDropRule } from "@/lib/dropRules";
+
+/**
+ * 드롭 규칙이 붙은 useDroppable
+ *
+ * 드래그 중인 아이템을 받을 수 있는지(verdict)를 함께 돌려주므로 드롭 대상이 빨간/비활성 모양을 그릴 수 있다.
+ * 드래그 중이 아니면 verdict는 null이다. 드롭 처리에서 막는 것은 호출하는 쪽이 checkDropRule로 직접 한다.
+ */
+export function useRuledDroppable<S extends DropSubject = DropSubject>({
+  id,
+  rule,
+  occupancy = 0,
+  disabled = false,
+}: {
+  id: string;
+  rule?: DropRule<S>;
+  // 이미 들어 있는 아이템 수 (capacity 판단용)
+  occupancy?: number;
+  disabled?: boolean;
+}) {
+  const { setNodeRef, isOver, active } = useDroppable({ id, disabled });
+
+  const verdict: DropVerdict | null = active
+    ? checkDropRule(rule, active.data.current?.dropSubject as S | undefined, occupancy)
+    : null;
+
+  return { setNodeRef, isOver, verdict };
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// 서버 동기화 상태
+export type BoardSyncStatus = "loading" | "synced" | "saving" | "offline" | "error";
+
+export interface ServerBoardOptions<T> {
+  boardId: string;
+  items: T[];
+  setItems: (items: T[]) => void;
+  // 서버 응답이 이 페이지의 아이템 형식인지 확인
+  validate: (data: unknown) => data is T[];
+  // 로컬 저장본을 불러온 뒤에 서버 배치를 받아오도록 미룰 때 false
+  enabled?: boolean;
+}
+
+// 서버에 닿지 않을 때 밀린 저장을 다시 시도하는 간격 (ms)
+const RETRY_DELAY_MS = 5000;
+
+const getBoardUrl = (boardId: string) => `/api/boards/${encodeURIComponent(boardId)}`;
+
+// 서버가 요청 자체를 거절했는지 (형식 오류 등, 다시 보내도 소용없음)
+const isRejected = (response: Response) => response.status >= 400 && response.status < 500;
+
+/**
+ * 서버(/api/boards/[id])에 보드 배치를 불러오고 저장하는 훅
+ *
+ * 마운트 후 서버 배치가 있으면 그것으로 바꾸고, save(items)는 화면을 먼저 바꾼 뒤(낙관적 갱신) PUT한다.
+ * 서버가 4xx로 거절하면 마지막으로 서버가 확인한 배치로 되돌리고,
+ * 네트워크 오류나 5xx면 화면은 그대로 두고 마지막 배치를 기억해 두었다가 다시 보낸다.
+ */
+export function useServerBoard<T>({
+  boardId,
+  items,
+  setItems,
+  validate,
+  enabled = true,
+}: ServerBoardOptions<T>) {
+  const [status, setStatus] = useState<BoardSyncStatus>("loading");
+  const [error, setError] = useState<string | null>(null);
+
+  // 서버에 저장됐다고 확인된 마지막 배치 (롤백 기준)
+  const confirmedRef = useRef<T[]>(items);
+  // 아직 서버에 올리지 못한 마지막 배치 (다시 시도할 대상)
+  const pendingRef = useRef<T[] | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // 늦게 도착한 이전 요청의 결과가 최신 변경을 덮지 않도록 요청 번호를 셈
+  const requestIdRef = useRef(0);
+
+  // 불러오기 effect가 첫 렌더의 값에 묶이지 않도록 최신 값을 ref로 들고 있음
+  const itemsRef = useRef(items);
+  const setItemsRef = useRef(setItems);
+  const validateRef = useRef(validate);
+  useEffect(() => {
+    itemsRef.current = items;
+    setItemsRef.current = setItems;
+    validateRef.current = validate;
+  }, [items, setItems, validate]);
+
+  const clearRetry = () => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  };
+
+  const put = useCallback(
+    async (next: T[]) => {
+      clearRetry();
+      setStatus("saving");
+      setError(null);
+      const requestId = ++requestIdRef.current;
+
+      let response: Response | null = null;
+      try {
+        response = await fetch(getBoardUrl(boardId), {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: next }),
+        });
+      } catch {
+        // 네트워크 오류: 아래에서 밀린 저장으로 처리
+      }
+      if (requestId !== requestIdRef.current) return;
+
+      if (response?.ok) {
+        confirmedRef.current = next;
+        pendingRef.current = null;
+        setStatus("synced");
+        return;
+      }
+
+      if (response && isRejected(response)) {
+        pendingRef.current = null;
+        setItemsRef.current(confirmedRef.current);
+        setError("서버가 배치를 거절해 마지막으로 저장된 배치로 되돌렸습니다");
+        setStatus("error");
+        return;
+      }
+
+      // 서버에 닿지 않거나 서버 쪽 오류: 이 기기의 배치는 유지하고 잠시 뒤 다시 보냄
+      pendingRef.current = next;
+      setStatus("offline");
+      retryTimerRef.current = setTimeout(() => {
+        retryTimerRef.current = null;
+        if (pendingRef.current) put(pendingRef.current);
+      }, RETRY_DELAY_MS);
+    },
+    [boardId]
+  );
+
+  // 마운트 시 한 번 불러오기 (보드가 바뀌거나 로컬 저장본을 불러왔을 때 다시)
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const response = await fetch(getBoardUrl(boardId), { cache: "no-store" });
+        if (cancelled) return;
+        if (response.status === 404) {
+          // 아직 서버에 없으면 지금 배치를 기준으로 삼음
+          confirmedRef.current = itemsRef.current;
+          setStatus("synced");
+          return;
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const board = (await response.json()) as { items?: unknown };
+        if (cancelled) return;
+        if (!validateRef.current(board.items)) {
+          setError("서버에 저장된 배치 형식이 이 보드와 맞지 않습니다");
+          setStatus("error");
+          return;
+        }
+        confirmedRef.current = board.items;
+        setItemsRef.current(board.items);
+        setStatus("synced");
+      } catch {
+        if (cancelled) return;
+        confirmedRef.current = itemsRef.current;
+        setStatus("offline");
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, enabled]);
+
+  // 다시 온라인이 되면 기다리지 않고 밀린 저장을 보냄, 떠날 때는 재시도 타이머 정리
+  useEffect(() => {
+    const handleOnline = () => {
+      if (pendingRef.current) put(pendingRef.current);
+    };
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      clearRetry();
+    };
+  }, [put]);
+
+  const save = useCallback(
+    (next: T[]) => {
+      setItems(next);
+      return put(next);
+    },
+    [setItems, put]
+  );
+
+  return { status, error, save };
+}
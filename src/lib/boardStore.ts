@@ -0,0 +1,94 @@
+// 서버 전용: 보드 배치를 JSON 파일로 저장하는 저장소 (route handler에서만 import)
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// 저장되는 보드 아이템 (박스의 id, 순서, 내용, 색상)
+export interface BoardItem {
+  id: string;
+  order: number;
+  content: string;
+  color?: string;
+}
+
+export interface Board {
+  id: string;
+  items: BoardItem[];
+  updatedAt: string;
+}
+
+// 저장 위치 (BOARD_STORE_DIR로 바꿀 수 있음)
+const STORE_DIR = process.env.BOARD_STORE_DIR ?? path.join(process.cwd(), ".data", "boards");
+
+// 한 보드에 담을 수 있는 최대 아이템 수와 문자열 길이
+const MAX_ITEMS = 100;
+const MAX_TEXT_LENGTH = 100;
+
+// 보드 ID는 파일 이름으로 쓰이므로 영문/숫자/하이픈만 허용
+const BOARD_ID_PATTERN = /^[a-z0-9-]{1,64}$/i;
+
+// Tailwind 배경색 클래스만 허용 (예: bg-blue-500)
+const COLOR_PATTERN = /^bg-[a-z]+-\d{2,3}$/;
+
+export const isValidBoardId = (id: string): boolean => BOARD_ID_PATTERN.test(id);
+
+const isBoardItem = (item: unknown): item is BoardItem => {
+  const candidate = item as Partial<BoardItem> | null;
+  return (
+    typeof candidate?.id === "string" &&
+    candidate.id.length > 0 &&
+    candidate.id.length <= MAX_TEXT_LENGTH &&
+    typeof candidate.order === "number" &&
+    Number.isInteger(candidate.order) &&
+    typeof candidate.content === "string" &&
+    candidate.content.length <= MAX_TEXT_LENGTH &&
+    (candidate.color === undefined ||
+      (typeof candidate.color === "string" && COLOR_PATTERN.test(candidate.color)))
+  );
+};
+
+/**
+ * 요청 본문의 아이템 목록 검증 (ID 중복과 순서 중복도 막음)
+ */
+export const isBoardItemList = (items: unknown): items is BoardItem[] => {
+  if (!Array.isArray(items) || items.length > MAX_ITEMS || !items.every(isBoardItem)) {
+    return false;
+  }
+  const ids = new Set(items.map((item) => item.id));
+  const orders = new Set(items.map((item) => item.order));
+  return ids.size === items.length && orders.size === items.length;
+};
+
+const getBoardPath = (id: string) => path.join(STORE_DIR, `${id}.json`);
+
+/**
+ * 보드 읽기, 저장된 적이 없으면 null
+ */
+export const readBoard = async (id: string): Promise<Board | null> => {
+  try {
+    const raw = await fs.readFile(getBoardPath(id), "utf8");
+    return JSON.parse(raw) as Board;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+/**
+ * 보드 저장 (임시 파일에 쓴 뒤 이름을 바꿔 중간에 끊겨도 파일이 깨지지 않게 함)
+ */
+export const writeBoard = async (id: string, items: BoardItem[]): Promise<Board> => {
+  const board: Board = {
+    id,
+    items: items.map(({ id: itemId, order, content, color }) => ({ id: itemId, order, content, color })),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  const filePath = getBoardPath(id);
+  // 같은 밀리초에 들어온 요청끼리도 임시 파일이 겹치지 않도록 쓰기마다 고유한 이름을 씀
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(board, null, 2), "utf8");
+  await fs.rename(tempPath, filePath);
+  return board;
+};
@@ -0,0 +1,162 @@
+// 협업 보드에서 주고받는 메시지 (모든 메시지에 보낸 클라이언트 ID가 붙음)
+// 연산은 Lamport 시계(clock)와 클라이언트 ID 순으로 정렬해 모든 클라이언트가 같은 순서로 적용한다.
+export type CollabOp =
+  | { type: "swap"; a: string; b: string }
+  | { type: "order"; ids: string[] };
+
+export interface StampedOp {
+  opId: string;
+  clock: number;
+  from: string;
+  op: CollabOp;
+}
+
+// 보드 시작 배치의 주인 (가장 먼저 들어온 클라이언트의 배치를 기준으로 삼음)
+export interface BaseOwner {
+  joinedAt: number;
+  clientId: string;
+}
+
+// 다른 사용자가 끌고 있는 아이템과 그리드 안 위치 (0~1로 정규화)
+export interface DragPresence {
+  id: string;
+  x: number;
+  y: number;
+}
+
+// 화면에 그릴 원격 사용자 드래그
+export interface RemoteDrag extends DragPresence {
+  peerId: string;
+  color: string;
+}
+
+export type CollabMessage =
+  | { type: "hello"; from: string; color: string; joinedAt: number }
+  | { type: "state"; from: string; color: string; owner: BaseOwner; baseIds: string[]; ops: StampedOp[] }
+  | { type: "op"; from: string; stamped: StampedOp }
+  | { type: "presence"; from: string; color: string; drag: DragPresence | null }
+  | { type: "bye"; from: string };
+
+export interface CollabTransport {
+  send: (message: CollabMessage) => void;
+  subscribe: (handler: (message: CollabMessage) => void) => () => void;
+  // 연결 상태가 바뀔 때마다 알림 (구독하는 즉시 지금 상태를 한 번 알림)
+  subscribeStatus: (handler: (connected: boolean) => void) => () => void;
+  close: () => void;
+}
+
+export type CollabTransportKind = "broadcast" | "websocket";
+
+// 로컬 WebSocket 중계 서버 주소 (npm run collab 으로 실행)
+export const COLLAB_WS_URL = process.env.NEXT_PUBLIC_COLLAB_WS_URL ?? "ws://localhost:4001";
+
+/**
+ * 같은 브라우저의 탭끼리 BroadcastChannel로 주고받기
+ */
+export const createBroadcastTransport = (roomId: string): CollabTransport => {
+  const channel = new BroadcastChannel(`swap-grid:${roomId}`);
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: (handler) => {
+      const listener = (event: MessageEvent<CollabMessage>) => handler(event.data);
+      channel.addEventListener("message", listener);
+      return () => channel.removeEventListener("message", listener);
+    },
+    // 같은 브라우저 안의 채널이라 끊길 일이 없음
+    subscribeStatus: (handler) => {
+      handler(true);
+      return () => {};
+    },
+    close: () => channel.close(),
+  };
+};
+
+/**
+ * 로컬 WebSocket 서버를 거쳐 다른 기기/사용자와 주고받기
+ * 연결되기 전에 보낸 메시지는 모아 두었다가 연결되면 보낸다.
+ */
+export const createWebSocketTransport = (roomId: string, url = COLLAB_WS_URL): CollabTransport => {
+  const socket = new WebSocket(`${url}?room=${encodeURIComponent(roomId)}`);
+  const pending: string[] = [];
+
+  socket.addEventListener("open", () => {
+    pending.splice(0).forEach((data) => socket.send(data));
+  });
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        pending.push(data);
+      }
+    },
+    subscribe: (handler) => {
+      const listener = (event: MessageEvent<string>) => {
+        try {
+          handler(JSON.parse(event.data) as CollabMessage);
+        } catch {
+          // 형식이 깨진 메시지는 무시
+        }
+      };
+      socket.addEventListener("message", listener);
+      return () => socket.removeEventListener("message", listener);
+    },
+    subscribeStatus: (handler) => {
+      const handleOpen = () => handler(true);
+      const handleDown = () => handler(false);
+      handler(socket.readyState === WebSocket.OPEN);
+      socket.addEventListener("open", handleOpen);
+      socket.addEventListener("close", handleDown);
+      socket.addEventListener("error", handleDown);
+      return () => {
+        socket.removeEventListener("open", handleOpen);
+        socket.removeEventListener("close", handleDown);
+        socket.removeEventListener("error", handleDown);
+      };
+    },
+    close: () => socket.close(),
+  };
+};
+
+/**
+ * 두 연산의 전체 순서 (clock이 같으면 클라이언트 ID, 그다음 연산 ID로 결정)
+ */
+export const compareOps = (a: StampedOp, b: StampedOp): number =>
+  a.clock - b.clock || a.from.localeCompare(b.from) || a.opId.localeCompare(b.opId);
+
+/**
+ * 시작 배치에 연산을 순서대로 적용한 ID 순서
+ * 알 수 없는 아이템을 가리키는 연산은 건너뛴다.
+ */
+export const replayOps = (baseIds: string[], ops: StampedOp[]): string[] =>
+  ops.reduce((ids, { op }) => {
+    if (op.type === "swap") {
+      const first = ids.indexOf(op.a);
+      const second = ids.indexOf(op.b);
+      if (first === -1 || second === -1) return ids;
+      const next = [...ids];
+      next[first] = op.b;
+      next[second] = op.a;
+      return next;
+    }
+    const sameItems = op.ids.length === ids.length && op.ids.every((id) => ids.includes(id));
+    return sameItems ? op.ids : ids;
+  }, baseIds);
+
+/**
+ * 이전 순서에서 다음 순서로 가는 연산 (두 칸만 바뀌었으면 swap, 아니면 전체 순서)
+ */
+export const diffToOp = (prevIds: string[], nextIds: string[]): CollabOp | null => {
+  const changed = prevIds.map((_, index) => index).filter((index) => prevIds[index] !== nextIds[index]);
+  if (changed.length === 0) return null;
+  if (
+    changed.length === 2 &&
+    prevIds[changed[0]] === nextIds[changed[1]] &&
+    prevIds[changed[1]] === nextIds[changed[0]]
+  ) {
+    return { type: "swap", a: prevIds[changed[0]], b: prevIds[changed[1]] };
+  }
+  return { type: "order", ids: nextIds };
+};
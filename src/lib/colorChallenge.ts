@@ -0,0 +1,57 @@
+// 정렬 챌린지 목표: 색상환 순서 / 번호 순서 / 보여준 무늬
+export type ChallengeTarget = "hue" | "number" | "pattern";
+
+// 효율 등급 (최소 교환 횟수 대비 실제 이동 횟수)
+export interface EfficiencyRating {
+  stars: number;
+  label: string;
+}
+
+/**
+ * 무작위로 섞은 ID 순서 (avoid와 같은 순서는 피함)
+ */
+export const shuffleIds = (
+  ids: string[],
+  avoid: string[] = ids,
+  random: () => number = Math.random
+): string[] => {
+  if (ids.length < 2) return [...ids];
+  const next = [...ids];
+  do {
+    for (let i = next.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [next[i], next[j]] = [next[j], next[i]];
+    }
+  } while (next.every((id, index) => id === avoid[index]));
+  return next;
+};
+
+/**
+ * current를 target 순서로 만드는 데 필요한 최소 교환 횟수
+ * 자리 순열을 사이클로 나누면 길이 k인 사이클마다 k-1번 교환이 필요하다.
+ */
+export const countMinSwaps = (current: string[], target: string[]): number => {
+  const targetIndex = new Map(target.map((id, index) => [id, index]));
+  const visited = new Array<boolean>(current.length).fill(false);
+  let swaps = 0;
+  for (let start = 0; start < current.length; start++) {
+    if (visited[start]) continue;
+    let length = 0;
+    for (let index = start; !visited[index]; index = targetIndex.get(current[index]) ?? index) {
+      visited[index] = true;
+      length++;
+    }
+    swaps += length - 1;
+  }
+  return swaps;
+};
+
+/**
+ * 이동 횟수가 최소 교환 횟수에 얼마나 가까운지 별 1~3개로 평가
+ */
+export const rateEfficiency = (minSwaps: number, moves: number): EfficiencyRating => {
+  const ratio = moves === 0 ? 1 : minSwaps / moves;
+  if (ratio >= 1) return { stars: 3, label: "최소 이동으로 완성!" };
+  if (ratio >= 0.6) return { stars: 2, label: "훌륭해요" };
+  return { stars: 1, label: "조금 더 줄여볼까요?" };
+};
@@ -0,0 +1,126 @@
+// 대시보드 타일 배치 (x, y는 칸 좌표, w, h는 차지하는 열·행 수)
+export interface DashboardTile {
+  id: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// JSON으로 그대로 저장·공유하는 대시보드 배치
+export interface DashboardLayout {
+  columns: number;
+  tiles: DashboardTile[];
+}
+
+// 타일 한 개의 최대 높이 (행 수)
+export const MAX_TILE_ROWS = 4;
+
+const isInteger = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value);
+
+export const isDashboardLayout = (data: unknown): data is DashboardLayout => {
+  const layout = data as Partial<DashboardLayout> | null;
+  if (!isInteger(layout?.columns) || layout.columns < 1 || !Array.isArray(layout.tiles)) return false;
+  const columns = layout.columns;
+  return (
+    new Set(layout.tiles.map((tile) => tile?.id)).size === layout.tiles.length &&
+    layout.tiles.every(
+      (tile) =>
+        typeof tile?.id === "string" &&
+        isInteger(tile.x) &&
+        isInteger(tile.y) &&
+        isInteger(tile.w) &&
+        isInteger(tile.h) &&
+        tile.x >= 0 &&
+        tile.y >= 0 &&
+        tile.w >= 1 &&
+        tile.h >= 1 &&
+        tile.x + tile.w <= columns
+    )
+  );
+};
+
+/**
+ * 두 타일이 겹치는지
+ */
+export const tilesCollide = (a: DashboardTile, b: DashboardTile): boolean =>
+  a.id !== b.id && a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+/**
+ * 타일이 그리드 밖으로 나가지 않도록 크기와 위치를 맞춤
+ */
+const clampTile = (tile: DashboardTile, columns: number): DashboardTile => {
+  const w = Math.min(Math.max(1, tile.w), columns);
+  const h = Math.min(Math.max(1, tile.h), MAX_TILE_ROWS);
+  return {
+    ...tile,
+    w,
+    h,
+    x: Math.min(Math.max(0, tile.x), columns - w),
+    y: Math.max(0, tile.y),
+  };
+};
+
+/**
+ * 이미 놓인 타일과 겹치지 않는 가장 위쪽 y로 끌어올림 (x는 그대로)
+ */
+const dropToTop = (tile: DashboardTile, placed: DashboardTile[]): DashboardTile => {
+  let y = 0;
+  while (placed.some((other) => tilesCollide({ ...tile, y }, other))) {
+    y++;
+  }
+  return { ...tile, y };
+};
+
+const byPosition = (a: DashboardTile, b: DashboardTile) => a.y - b.y || a.x - b.x;
+
+/**
+ * 겹침 없이 위로 빽빽하게 다시 쌓은 배치
+ *
+ * pinnedId 타일(방금 옮기거나 크기를 바꾼 타일)을 먼저 그 자리에 두고,
+ * 나머지는 위→아래, 왼쪽→오른쪽 순으로 겹치지 않는 가장 위 칸에 채운다.
+ * 마지막으로 고정했던 타일까지 포함해 한 번 더 위로 당겨 빈 줄을 없앤다.
+ */
+export const packLayout = (layout: DashboardLayout, pinnedId?: string): DashboardLayout => {
+  const tiles = layout.tiles.map((tile) => clampTile(tile, layout.columns));
+  const pinned = tiles.find((tile) => tile.id === pinnedId);
+
+  const placed: DashboardTile[] = pinned ? [pinned] : [];
+  tiles
+    .filter((tile) => tile !== pinned)
+    .sort(byPosition)
+    .forEach((tile) => placed.push(dropToTop(tile, placed)));
+
+  const packed: DashboardTile[] = [];
+  [...placed].sort(byPosition).forEach((tile) => packed.push(dropToTop(tile, packed)));
+
+  // 원래 타일 순서를 유지해 JSON이 불필요하게 바뀌지 않게 함
+  return {
+    ...layout,
+    tiles: layout.tiles.map((tile) => packed.find((candidate) => candidate.id === tile.id)!),
+  };
+};
+
+/**
+ * 타일을 (x, y) 칸으로 옮기고 다른 타일을 비켜 다시 쌓음
+ */
+export const moveTile = (layout: DashboardLayout, id: string, x: number, y: number): DashboardLayout =>
+  packLayout(
+    { ...layout, tiles: layout.tiles.map((tile) => (tile.id === id ? { ...tile, x, y } : tile)) },
+    id
+  );
+
+/**
+ * 타일 크기를 w x h로 바꾸고 다른 타일을 비켜 다시 쌓음
+ */
+export const resizeTile = (layout: DashboardLayout, id: string, w: number, h: number): DashboardLayout =>
+  packLayout(
+    { ...layout, tiles: layout.tiles.map((tile) => (tile.id === id ? { ...tile, w, h } : tile)) },
+    id
+  );
+
+/**
+ * 배치가 차지하는 행 수
+ */
+export const getLayoutRows = (layout: DashboardLayout): number =>
+  Math.max(0, ...layout.tiles.map((tile) => tile.y + tile.h));
@@ -0,0 +1,54 @@
+// 데모 페이지 목록 (상단 내비게이션과 첫 화면 갤러리가 함께 사용)
+export interface DemoRoute {
+  href: string;
+  title: string;
+  description: string;
+}
+
+export const DEMO_ROUTES: DemoRoute[] = [
+  {
+    href: "/bomb",
+    title: "폭탄 찾기",
+    description: "카드를 뒤집어 폭탄을 피하는 게임. 드래그로 카드를 섞고 리플레이를 공유할 수 있어요.",
+  },
+  {
+    href: "/memory",
+    title: "짝 맞추기",
+    description: "카드를 두 장씩 뒤집어 같은 그림을 찾는 게임. 둘이서 번갈아 할 수도 있어요.",
+  },
+  {
+    href: "/swap/3",
+    title: "박스 편집",
+    description: "박스를 추가하고, 이름과 색상을 바꾸고, 휴지통으로 끌어 지워보세요.",
+  },
+  {
+    href: "/swap/9",
+    title: "3x3 실시간 그리드",
+    description: "여러 개를 골라 함께 옮기고, 다른 탭과 실시간으로 배치를 맞춥니다.",
+  },
+  {
+    href: "/swap/9-simple",
+    title: "3x3 기본 그리드",
+    description: "자리 바꾸기와 끼워 넣기만 있는 가장 단순한 그리드.",
+  },
+  {
+    href: "/puzzle",
+    title: "슬라이딩 퍼즐",
+    description: "빈칸 옆 타일을 밀어 순서를 맞추는 8-퍼즐. 사진을 조각내 풀 수도 있어요.",
+  },
+  {
+    href: "/challenge",
+    title: "색상 정렬 챌린지",
+    description: "섞인 박스를 목표 순서대로 늘어놓고, 최소 교환 횟수에 도전하세요.",
+  },
+  {
+    href: "/kanban",
+    title: "칸반 보드",
+    description: "박스를 열 사이로 옮기고 열 순서도 드래그로 바꿉니다.",
+  },
+  {
+    href: "/dashboard",
+    title: "대시보드",
+    description: "여러 칸을 차지하는 위젯을 옮기고 크기를 바꾸면 나머지가 빈자리로 비켜납니다.",
+  },
+];
@@ -0,0 +1,35 @@
+import type { Announcements, ScreenReaderInstructions, UniqueIdentifier } from "@dnd-kit/core";
+
+/**
+ * 스크린 리더용 한국어 드래그 안내 문구 만들기
+ * getLabel은 드래그/드롭 대상 ID를 읽어줄 이름으로 바꾼다 (예: "card-3" -> "카드 3")
+ */
+export const createKoreanAnnouncements = (
+  getLabel: (id: UniqueIdentifier) => string
+): Announcements => ({
+  onDragStart({ active }) {
+    return `${getLabel(active.id)}을(를) 집었습니다.`;
+  },
+  onDragOver({ active, over }) {
+    if (!over) {
+      return `${getLabel(active.id)}이(가) 놓을 수 있는 영역 밖에 있습니다.`;
+    }
+    return `${getLabel(active.id)}을(를) ${getLabel(over.id)} 위로 옮겼습니다.`;
+  },
+  onDragEnd({ active, over }) {
+    if (!over) {
+      return `${getLabel(active.id)}을(를) 놓았습니다. 위치는 바뀌지 않았습니다.`;
+    }
+    return `${getLabel(active.id)}을(를) ${getLabel(over.id)}에 놓았습니다.`;
+  },
+  onDragCancel({ active }) {
+    return `이동을 취소했습니다. ${getLabel(active.id)}은(는) 원래 자리로 돌아갔습니다.`;
+  },
+});
+
+/**
+ * 드래그 가능한 요소에 포커스했을 때 읽어줄 조작 안내
+ */
+export const createKoreanInstructions = (pickUpKey: string): ScreenReaderInstructions => ({
+  draggable: `${pickUpKey} 키로 집은 뒤 방향키로 옮기고, 다시 ${pickUpKey} 키로 놓습니다. Esc 키를 누르면 취소됩니다. 집지 않은 상태에서는 방향키로 다른 칸으로 이동할 수 있습니다.`,
+});
@@ -0,0 +1,54 @@
+// 드래그하는 아이템이 규칙 판단에 내놓는 정보 (useDraggable/useSortable data.dropSubject로 넘김)
+export interface DropSubject {
+  type: string;
+  tags?: string[];
+}
+
+// 드롭 대상이 받을 아이템을 고르는 규칙 (적힌 조건을 모두 만족해야 받음)
+export interface DropRule<S extends DropSubject = DropSubject> {
+  // 받을 수 있는 아이템 종류
+  accepts?: string[];
+  // 모두 있어야 하는 태그 / 하나라도 있으면 안 되는 태그
+  requiredTags?: string[];
+  forbiddenTags?: string[];
+  // 이미 들어 있는 아이템 수가 이만큼이면 더 받지 않음
+  capacity?: number;
+  // 그 밖의 조건 (reason은 거절할 때 보여줄 이유)
+  predicate?: { test: (subject: S) => boolean; reason: string };
+}
+
+// 규칙 판단 결과
+export type DropVerdict = { allowed: true } | { allowed: false; reason: string };
+
+const ALLOWED: DropVerdict = { allowed: true };
+
+/**
+ * 아이템을 이 규칙의 드롭 대상에 놓을 수 있는지
+ * 규칙이 없으면 모두 받고, 규칙이 있는데 아이템 정보가 없으면 거절한다.
+ */
+export const checkDropRule = <S extends DropSubject>(
+  rule: DropRule<S> | undefined,
+  subject: S | undefined,
+  occupancy = 0
+): DropVerdict => {
+  if (!rule) return ALLOWED;
+  if (!subject) return { allowed: false, reason: "놓을 수 없는 항목입니다" };
+
+  const tags = subject.tags ?? [];
+  if (rule.accepts && !rule.accepts.includes(subject.type)) {
+    return { allowed: false, reason: "이 종류는 놓을 수 없습니다" };
+  }
+  if (rule.requiredTags?.some((tag) => !tags.includes(tag))) {
+    return { allowed: false, reason: "조건에 맞지 않습니다" };
+  }
+  if (rule.forbiddenTags?.some((tag) => tags.includes(tag))) {
+    return { allowed: false, reason: "지금 상태로는 놓을 수 없습니다" };
+  }
+  if (rule.capacity !== undefined && occupancy >= rule.capacity) {
+    return { allowed: false, reason: `최대 ${rule.capacity}개까지 놓을 수 있습니다` };
+  }
+  if (rule.predicate && !rule.predicate.test(subject)) {
+    return { allowed: false, reason: rule.predicate.reason };
+  }
+  return ALLOWED;
+};
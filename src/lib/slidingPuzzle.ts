@@ -0,0 +1,87 @@
+// 슬라이딩 퍼즐 배치: slots[i]는 i번째 칸에 있는 타일 번호 (0부터), 빈칸은 null
+// 맞춘 상태는 타일이 번호 순서대로 놓이고 마지막 칸이 비어 있는 배치다.
+export type PuzzleSlots = (number | null)[];
+
+/**
+ * size x size 퍼즐의 맞춘 배치
+ */
+export const createSolvedSlots = (size: number): PuzzleSlots => [
+  ...Array.from({ length: size * size - 1 }, (_, tile) => tile),
+  null,
+];
+
+export const isSolved = (slots: PuzzleSlots): boolean =>
+  slots.every((tile, index) => (index === slots.length - 1 ? tile === null : tile === index));
+
+/**
+ * 빈칸을 뺀 타일 순서의 역전 수
+ */
+const countInversions = (slots: PuzzleSlots): number => {
+  const tiles = slots.filter((tile): tile is number => tile !== null);
+  let inversions = 0;
+  for (let i = 0; i < tiles.length; i++) {
+    for (let j = i + 1; j < tiles.length; j++) {
+      if (tiles[i] > tiles[j]) inversions++;
+    }
+  }
+  return inversions;
+};
+
+/**
+ * 맞춘 배치로 되돌릴 수 있는 배치인지
+ * 가로 칸 수가 홀수면 역전 수가 짝수여야 하고,
+ * 짝수면 (역전 수 + 아래에서 센 빈칸의 줄 번호)가 홀수여야 한다.
+ */
+export const isSolvable = (slots: PuzzleSlots, size: number): boolean => {
+  const inversions = countInversions(slots);
+  if (size % 2 === 1) return inversions % 2 === 0;
+  const emptyRowFromBottom = size - Math.floor(slots.indexOf(null) / size);
+  return (inversions + emptyRowFromBottom) % 2 === 1;
+};
+
+/**
+ * 풀 수 있고 아직 맞춰지지 않은 무작위 배치
+ * 무작위로 섞은 뒤 풀 수 없으면 빈칸이 아닌 두 타일을 바꿔 역전 수의 홀짝을 뒤집는다.
+ */
+export const shuffleSolvable = (size: number, random: () => number = Math.random): PuzzleSlots => {
+  const slots = createSolvedSlots(size);
+  do {
+    for (let i = slots.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [slots[i], slots[j]] = [slots[j], slots[i]];
+    }
+    if (!isSolvable(slots, size)) {
+      const [first, second] = slots
+        .map((tile, index) => (tile === null ? -1 : index))
+        .filter((index) => index !== -1);
+      [slots[first], slots[second]] = [slots[second], slots[first]];
+    }
+  } while (isSolved(slots));
+  return slots;
+};
+
+/**
+ * 빈칸과 상하좌우로 붙어 있어 옮길 수 있는 칸 번호들
+ */
+export const getMovableSlots = (slots: PuzzleSlots, size: number): number[] => {
+  const empty = slots.indexOf(null);
+  const row = Math.floor(empty / size);
+  const col = empty % size;
+  return [
+    row > 0 ? empty - size : -1,
+    row < size - 1 ? empty + size : -1,
+    col > 0 ? empty - 1 : -1,
+    col < size - 1 ? empty + 1 : -1,
+  ].filter((slot) => slot !== -1);
+};
+
+/**
+ * slot의 타일을 빈칸으로 옮긴 배치 (옮길 수 없으면 그대로)
+ */
+export const slideTile = (slots: PuzzleSlots, slot: number, size: number): PuzzleSlots => {
+  if (!getMovableSlots(slots, size).includes(slot)) return slots;
+  const next = [...slots];
+  const empty = next.indexOf(null);
+  [next[slot], next[empty]] = [null, next[slot]];
+  return next;
+};
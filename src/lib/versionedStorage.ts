@@ -0,0 +1,76 @@
+// localStorage에 실제로 쓰이는 형식 (데이터 형태가 바뀌면 version을 올림)
+interface StoredEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+// 버전 n의 데이터를 n + 1 형식으로 바꾸는 함수
+export type Migration = (data: unknown) => unknown;
+
+export interface VersionedStoreOptions<T> {
+  key: string;
+  // 현재 데이터 형식의 버전 (1부터 시작)
+  version: number;
+  // migrations[n]은 버전 n으로 저장된 데이터를 n + 1로 올림
+  // 예: 박스에 필드가 생기면 version을 2로 올리고 migrations[1]에서 기본값을 채움
+  migrations?: Record<number, Migration>;
+  // 마이그레이션까지 마친 데이터가 현재 형식인지 확인
+  validate: (data: unknown) => data is T;
+}
+
+/**
+ * 버전이 붙은 localStorage 저장소 만들기
+ *
+ * load()는 예전 버전이면 마이그레이션을 차례로 적용하고,
+ * 손상됐거나 올릴 수 없는 데이터(더 새 버전 포함)면 null을 돌려준다.
+ * 저장하는 형식(필드)이 바뀌면 version을 올리고 migrations에 이전 버전을 올리는 함수를 추가해야
+ * 기존 사용자의 저장본이 validate에서 걸러져 사라지지 않는다.
+ */
+export const createVersionedStore = <T>({
+  key,
+  version,
+  migrations = {},
+  validate,
+}: VersionedStoreOptions<T>) => {
+  const load = (): T | null => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      if (!raw) return null;
+
+      const stored = JSON.parse(raw) as Partial<StoredEnvelope>;
+      if (typeof stored.version !== "number" || stored.version > version) return null;
+
+      let data = stored.data;
+      for (let from = stored.version; from < version; from++) {
+        const migrate = migrations[from];
+        if (!migrate) return null;
+        data = migrate(data);
+      }
+      return validate(data) ? data : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const save = (data: T) => {
+    const envelope: StoredEnvelope = { version, savedAt: new Date().toISOString(), data };
+    try {
+      window.localStorage.setItem(key, JSON.stringify(envelope));
+    } catch {
+      // 저장 공간이 없거나 막혀 있으면 저장만 건너뜀
+    }
+  };
+
+  const clear = () => {
+    try {
+      window.localStorage.removeItem(key);
+    } catch {
+      // 접근이 막혀 있으면 지울 것도 없음
+    }
+  };
+
+  return { key, load, save, clear };
+};
+
+export type VersionedStore<T> = ReturnType<typeof createVersionedStore<T>>;